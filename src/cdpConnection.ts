@@ -0,0 +1,274 @@
+import { EventEmitter } from 'events';
+import { CDPSender } from './objectExpander';
+
+export type CDPEventHandler = (params: any) => void;
+
+/**
+ * Returned by CDPSession.on() - removes the subscription again
+ */
+export interface Disposable {
+    dispose(): void;
+}
+
+/**
+ * What every capture feature is written against: a browser tab, a worker, a CEF panel
+ * or a Node.js process all look the same from here.
+ */
+export interface CDPSession extends CDPSender {
+    readonly id?: string;  // Flattened session id - undefined for a connection's own target
+    send(method: string, params?: any, options?: { timeout?: number }): Promise<any>;
+    on(event: string, handler: CDPEventHandler): Disposable;
+    off(event: string, handler: CDPEventHandler): void;
+    session(sessionId: string): CDPSession | null;  // Child attached with Target.setAutoAttach({ flatten: true })
+    detach?(): Promise<void>;
+}
+
+export interface CDPConnectionOptions {
+    timeout: number;  // ms before a command without its own timeout is rejected
+    openTimeout: number;  // ms to wait for the WebSocket to open
+    filter?: (method: string, params: any, sessionId?: string) => boolean;  // Events it rejects are not dispatched
+}
+
+export const DEFAULT_CONNECTION_OPTIONS: CDPConnectionOptions = {
+    timeout: 30000,
+    openTimeout: 5000
+};
+
+/**
+ * Reject a command that takes longer than `timeout` ms (0 = wait forever)
+ */
+function withTimeout<T>(promise: Promise<T>, method: string, timeout: number): Promise<T> {
+    if (!timeout) {
+        return promise;
+    }
+
+    let timer: NodeJS.Timeout;
+    const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${method} timed out after ${timeout}ms`)), timeout);
+    });
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * CDP over a WebSocket to a single debugging target (CEF panel, Node.js inspector).
+ * Responses are matched to commands, events are dispatched to the session they belong
+ * to, and flattened child sessions are addressed by their sessionId.
+ *
+ * Events: 'message' (message, direction) for all raw traffic, 'close', 'error'.
+ */
+export class CDPConnection extends EventEmitter {
+    readonly root: CDPSession;
+    private options: CDPConnectionOptions;
+    private messageId = 1;
+    private pending = new Map<number, { method: string; resolve: (value: any) => void; reject: (error: Error) => void }>();
+    private sessions = new Map<string, WebSocketSession>();
+    private isClosed = false;
+
+    /**
+     * Open a WebSocket to `url` and wrap it once it is connected
+     */
+    static async connect(url: string, options?: Partial<CDPConnectionOptions>): Promise<CDPConnection> {
+        const WebSocket = require('ws');
+        const openTimeout = options?.openTimeout ?? DEFAULT_CONNECTION_OPTIONS.openTimeout;
+        const ws = new WebSocket(url);
+
+        try {
+            await withTimeout(new Promise<void>((resolve, reject) => {
+                ws.once('open', resolve);
+                ws.once('error', reject);
+            }), 'WebSocket connection', openTimeout);
+        } catch (error) {
+            ws.terminate?.();
+            throw error;
+        }
+
+        return new CDPConnection(ws, options);
+    }
+
+    constructor(private ws: any, options?: Partial<CDPConnectionOptions>) {
+        super();
+        this.options = { ...DEFAULT_CONNECTION_OPTIONS, ...options };
+        this.root = new WebSocketSession(this);
+
+        ws.on('message', (data: any) => this.onMessage(String(data)));
+        ws.on('error', (error: Error) => {
+            // An 'error' event without listeners would throw - 'close' follows anyway
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', error);
+            }
+        });
+        ws.on('close', () => this.onClose());
+    }
+
+    get closed(): boolean {
+        return this.isClosed;
+    }
+
+    send(method: string, params?: any, sessionId?: string, timeout: number = this.options.timeout): Promise<any> {
+        if (this.isClosed) {
+            return Promise.reject(new Error(`${method}: CDP connection closed`));
+        }
+
+        const id = this.messageId++;
+        const message: any = { id, method, params: params || {} };
+        if (sessionId) {
+            message.sessionId = sessionId;
+        }
+
+        const response = new Promise<any>((resolve, reject) => {
+            this.pending.set(id, { method, resolve, reject });
+        });
+        this.emit('message', message, 'sent');
+        this.ws.send(JSON.stringify(message));
+
+        return withTimeout(response, method, timeout).catch(error => {
+            this.pending.delete(id);
+            throw error;
+        });
+    }
+
+    /**
+     * Session for a flattened child target - created on first use
+     */
+    session(sessionId: string): CDPSession {
+        let session = this.sessions.get(sessionId);
+        if (!session) {
+            session = new WebSocketSession(this, sessionId);
+            this.sessions.set(sessionId, session);
+        }
+        return session;
+    }
+
+    close(): void {
+        if (this.isClosed) {
+            return;
+        }
+        this.ws.close();
+        this.onClose();
+    }
+
+    private onMessage(data: string): void {
+        let message: any;
+        try {
+            message = JSON.parse(data);
+        } catch {
+            return;
+        }
+        this.emit('message', message, 'received');
+
+        if (message.id !== undefined) {
+            const callback = this.pending.get(message.id);
+            if (callback) {
+                this.pending.delete(message.id);
+                if (message.error) {
+                    callback.reject(new Error(`${callback.method}: ${message.error.message}`));
+                } else {
+                    callback.resolve(message.result);
+                }
+            }
+            return;
+        }
+
+        if (!message.method) {
+            return;
+        }
+        if (this.options.filter && !this.options.filter(message.method, message.params, message.sessionId)) {
+            return;
+        }
+
+        const session = message.sessionId ? this.sessions.get(message.sessionId) : this.root as WebSocketSession;
+        session?.dispatch(message.method, message.params);
+
+        // A detached child's subscriptions go with it
+        if (message.method === 'Target.detachedFromTarget' && message.params?.sessionId) {
+            this.sessions.get(message.params.sessionId)?.dispose();
+            this.sessions.delete(message.params.sessionId);
+        }
+    }
+
+    private onClose(): void {
+        if (this.isClosed) {
+            return;
+        }
+        this.isClosed = true;
+
+        for (const { method, reject } of this.pending.values()) {
+            reject(new Error(`${method}: CDP connection closed`));
+        }
+        this.pending.clear();
+        for (const session of this.sessions.values()) {
+            session.dispose();
+        }
+        this.sessions.clear();
+
+        this.emit('close');
+    }
+}
+
+/**
+ * A target on a CDPConnection - the root target or a flattened child session
+ */
+class WebSocketSession implements CDPSession {
+    private events = new EventEmitter();
+
+    constructor(private connection: CDPConnection, readonly id?: string) {}
+
+    send(method: string, params?: any, options?: { timeout?: number }): Promise<any> {
+        return this.connection.send(method, params, this.id, options?.timeout);
+    }
+
+    on(event: string, handler: CDPEventHandler): Disposable {
+        this.events.on(event, handler);
+        return { dispose: () => this.off(event, handler) };
+    }
+
+    off(event: string, handler: CDPEventHandler): void {
+        this.events.off(event, handler);
+    }
+
+    session(sessionId: string): CDPSession {
+        return this.connection.session(sessionId);
+    }
+
+    dispatch(method: string, params: any): void {
+        this.events.emit(method, params);
+    }
+
+    dispose(): void {
+        this.events.removeAllListeners();
+    }
+}
+
+/**
+ * A puppeteer CDPSession behind the same interface, so browser tabs and workers go
+ * through the code written for direct WebSocket targets
+ */
+export class PuppeteerSession implements CDPSession {
+    constructor(private inner: any) {}
+
+    get id(): string | undefined {
+        return this.inner.id?.();
+    }
+
+    send(method: string, params?: any, options?: { timeout?: number }): Promise<any> {
+        return withTimeout(this.inner.send(method, params), method, options?.timeout || 0);
+    }
+
+    on(event: string, handler: CDPEventHandler): Disposable {
+        this.inner.on(event, handler);
+        return { dispose: () => this.off(event, handler) };
+    }
+
+    off(event: string, handler: CDPEventHandler): void {
+        this.inner.off(event, handler);
+    }
+
+    session(sessionId: string): CDPSession | null {
+        const child = this.inner.connection?.()?.session(sessionId);
+        return child ? new PuppeteerSession(child) : null;
+    }
+
+    async detach(): Promise<void> {
+        await this.inner.detach();
+    }
+}
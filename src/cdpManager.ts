@@ -1,22 +1,35 @@
-import { LogWriter } from './logWriter';
+import { LogWriter, TargetInfo } from './logWriter';
 import { DevMirrorConfig } from './configHandler';
 import { ConsoleEventHandler } from './handlers/ConsoleEventHandler';
 import { NetworkEventHandler } from './handlers/NetworkEventHandler';
+import { HarRecorder } from './handlers/HarRecorder';
+import { IssueEventHandler } from './handlers/IssueEventHandler';
+import { PerformanceMonitor } from './handlers/PerformanceMonitor';
+import { ScreenshotCapturer } from './handlers/ScreenshotCapturer';
+import { RequestInterceptor } from './handlers/RequestInterceptor';
+import { EmulationController } from './handlers/EmulationController';
+import { DialogHandler } from './handlers/DialogHandler';
+import { SourceMapResolver } from './sourceMapResolver';
+import { matchesUrlPattern } from './urlPattern';
+import { NodeInspector } from './nodeInspector';
+import { CDPConnection, CDPSession, PuppeteerSession } from './cdpConnection';
 import * as crypto from 'crypto';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
 import * as net from 'net';
-import { exec } from 'child_process';
+import { ChildProcess, exec, spawn } from 'child_process';
 import { promisify } from 'util';
 
+const DEFAULT_CI_DURATION = 300;  // Seconds - a CI run without a stop condition must still end
+
 export class CDPManager {
     private browser: any = null;
     private page: any = null;
     private logWriter!: LogWriter;  // Will be initialized before use
     private messageCount = new Map<string, number>();
     private lastReset = Date.now();
-    private client: any = null;
+    private client: CDPSession | null = null;
     private puppeteer: any;
     private static connectionCount: number = 0;
 
@@ -27,13 +40,22 @@ export class CDPManager {
     private waitingForFreshContext: boolean = true;  // Ignore existing contexts on startup
     private initialContextsSeen: Set<number> = new Set();  // Track initial contexts to ignore
     private connectionAttempts: number = 0;  // Track how many times we tried to connect
-    private activeWebSocket: any = null;  // Track active WebSocket for cleanup
+    private activeConnection: CDPConnection | null = null;  // Track active CEF connection for cleanup
     private reconnectTimer: NodeJS.Timeout | null = null;
     private isReconnecting: boolean = false;
     private reconnectAttempts: number = 0;
     private maxReconnectAttempts: number = 10;
     private reconnectDelay: number = 5000; // 5 seconds between attempts
     private profileDir: string | null = null;  // Track profile directory for cleanup
+    private attachedToBrowser: boolean = false;  // Browser belongs to the user - disconnect, never close
+    private electronProcess: ChildProcess | null = null;  // Electron app launched in electron mode
+    private capturedTargets = new Map<any, TargetInfo | undefined>();  // Page targets with listeners -> their label
+    private tabCounter: number = 0;
+    private isStopping: boolean = false;
+    private startedAt: number = 0;
+    private completionTimer: NodeJS.Timeout | null = null;  // CI duration stop
+    private idleTimer: NodeJS.Timeout | null = null;  // CI network idle stop
+    private stopReason: string = 'stopped';
 
     // Configuration
     private config!: DevMirrorConfig;
@@ -41,6 +63,16 @@ export class CDPManager {
     // Event handlers
     private consoleHandler!: ConsoleEventHandler;
     private networkHandler!: NetworkEventHandler;
+    private sourceMaps: SourceMapResolver | null = null;
+    private harRecorder: HarRecorder | null = null;
+    private issueHandler: IssueEventHandler | null = null;
+    private performanceMonitor: PerformanceMonitor | null = null;
+    private screenshots: ScreenshotCapturer | null = null;
+    private interceptor: RequestInterceptor | null = null;
+    private emulation: EmulationController | null = null;
+    private dialogs!: DialogHandler;
+    private nodeInspector: NodeInspector | null = null;
+    private cefSeenEvents = new Set<string>();  // Identity of CEF events already written
 
     constructor() {
         // Don't initialize LogWriter here - wait for config
@@ -50,67 +82,42 @@ export class CDPManager {
     async start(config: DevMirrorConfig): Promise<void> {
         // Store config for later use
         this.config = config;
+        this.startedAt = Date.now();
+
+        await this.startMode(config);
 
+        // CI runs end on their own once the stop condition is met
+        if (config.ci) {
+            this.scheduleCompletion(config);
+        }
+    }
+
+    private async startMode(config: DevMirrorConfig): Promise<void> {
         // Handle CEF mode differently - open browser to debug interface
         if (config.mode === 'cef' && config.cefPort) {
             return this.startCEFMode(config);
         }
-        // Try to load puppeteer-core from multiple locations
-        let puppeteerLoaded = false;
 
-        // Try project's node_modules first
-        try {
-            const projectPath = path.join(process.cwd(), 'node_modules', 'puppeteer-core');
-            this.puppeteer = require(projectPath);
-            puppeteerLoaded = true;
-        } catch (error) {
-            // Try global or direct require
-            try {
-                this.puppeteer = require('puppeteer-core');
-                puppeteerLoaded = true;
-            } catch (error2) {
-                // Not found
-            }
+        // Connect to a browser the user already runs instead of launching one
+        if (config.mode === 'attach') {
+            return this.startAttachMode(config);
         }
 
-        if (!puppeteerLoaded) {
-            console.error('❌ puppeteer-core not found.');
-            console.log('🔧 Auto-installing puppeteer-core...');
-
-            try {
-                const { execSync } = require('child_process');
-
-                // Try to install in the current project first
-                if (require('fs').existsSync('package.json')) {
-                    console.log('📦 Installing puppeteer-core as project dependency...');
-                    execSync('npm install puppeteer-core', { stdio: 'inherit' });
-
-                    // Try loading again after installation
-                    const projectPath = path.join(process.cwd(), 'node_modules', 'puppeteer-core');
-                    this.puppeteer = require(projectPath);
-                    puppeteerLoaded = true;
-                    console.log('✅ puppeteer-core installed and loaded successfully!');
-                } else {
-                    console.error('⚠️  No package.json found. Please install puppeteer-core manually:');
-                    console.error('   npm install puppeteer-core');
-                    console.error('   or globally: npm install -g puppeteer-core');
-                    process.exit(1);
-                }
-            } catch (installError) {
-                console.error('❌ Failed to auto-install puppeteer-core:', installError);
-                console.error('💡 Please install manually:');
-                console.error('   npm install puppeteer-core');
-                console.error('   or globally: npm install -g puppeteer-core');
-                process.exit(1);
-            }
+        if (config.mode === 'electron') {
+            return this.startElectronMode(config);
         }
 
-        this.logWriter = new LogWriter(config.outputDir, config);
-        await this.logWriter.initialize();
+        // Server-side only - no browser at all
+        if (config.mode === 'node') {
+            await this.initializeCapture(config);
+            console.log('🟢 DevMirror Active');
+            console.log(`├─ Logging to: ${config.outputDir}`);
+            await this.startNodeCapture(config);
+            return;
+        }
 
-        // Initialize event handlers
-        this.consoleHandler = new ConsoleEventHandler(this.logWriter, config);
-        this.networkHandler = new NetworkEventHandler(this.logWriter);
+        await this.loadPuppeteer();
+        await this.initializeCapture(config);
 
         // Auto-detect port if URL not provided or autoDetectPort is true
         let targetUrl = config.url;
@@ -129,7 +136,7 @@ export class CDPManager {
         }
 
         console.log('🟢 DevMirror Active');
-        console.log(`├─ Chrome launching (CDP connecting)...`);
+        console.log(`├─ Chrome launching${config.headless ? ' headless' : ''} (CDP connecting)...`);
         console.log(`├─ Logging to: ${config.outputDir}`);
         console.log(`├─ Dev server: ${targetUrl}`);
 
@@ -163,14 +170,14 @@ export class CDPManager {
             console.log(`└─ Chrome profile: ${path.basename(this.profileDir)}`);
 
             this.browser = await this.puppeteer.launch({
-                headless: false,
-                devtools: true,
+                headless: config.headless ? 'new' : false,
+                devtools: !config.headless,
                 executablePath: executablePath,
                 userDataDir: this.profileDir,  // Project-specific profile directory
                 defaultViewport: null,  // Use full browser window instead of fixed viewport
                 args: [
-                    '--auto-open-devtools-for-tabs',
-                    '--start-maximized',  // Start Chrome maximized
+                    // A headless run has no window to maximize and no DevTools to open
+                    ...(config.headless ? [] : ['--auto-open-devtools-for-tabs', '--start-maximized']),
                     '--disable-background-timer-throttling',
                     '--disable-backgrounding-occluded-windows',
                     '--disable-renderer-backgrounding',
@@ -206,7 +213,10 @@ export class CDPManager {
             // Wait for page to be ready
             await this.page.evaluateHandle('document');
 
-            await this.setupListeners();
+            // With multi-tab capture every tab is labeled, the first one included
+            const firstTab = config.tabs?.enabled ? await this.labelTab(this.page) : undefined;
+            await this.setupListeners(this.page, firstTab);
+            this.capturedTargets.set(this.page.target(), firstTab);
 
             // Try to connect with retries (server might be starting)
             const maxRetries = 10;
@@ -238,7 +248,8 @@ export class CDPManager {
                             const pages = await this.browser.pages();
                             this.page = pages[0] || await this.browser.newPage();
                             await this.page.evaluateHandle('document');
-                            await this.setupListeners();
+                            await this.setupListeners(this.page, firstTab);
+                            this.capturedTargets.set(this.page.target(), firstTab);
                         }
                     } else {
                         throw error;
@@ -246,6 +257,18 @@ export class CDPManager {
                 }
             }
 
+            // Popups, window.open and target=_blank tabs
+            if (config.tabs?.enabled) {
+                const patterns = config.tabs.origins?.length
+                    ? config.tabs.origins.map(origin => `${origin.replace(/\/$/, '')}/*`)
+                    : ['/^(?!devtools:)/'];
+                await this.capturePageTargets(patterns, true, page => this.labelTab(page));
+            }
+
+            if (config.node?.enabled) {
+                await this.startNodeCapture(config);
+            }
+
             console.log('\n✅ DevMirror capturing all console output');
 
         } catch (error) {
@@ -254,6 +277,423 @@ export class CDPManager {
         }
     }
 
+    /**
+     * Load puppeteer-core from the project, globally, or install it on demand
+     */
+    private async loadPuppeteer(): Promise<void> {
+        let puppeteerLoaded = false;
+
+        // Try project's node_modules first
+        try {
+            const projectPath = path.join(process.cwd(), 'node_modules', 'puppeteer-core');
+            this.puppeteer = require(projectPath);
+            puppeteerLoaded = true;
+        } catch (error) {
+            // Try global or direct require
+            try {
+                this.puppeteer = require('puppeteer-core');
+                puppeteerLoaded = true;
+            } catch (error2) {
+                // Not found
+            }
+        }
+
+        if (!puppeteerLoaded) {
+            console.error('❌ puppeteer-core not found.');
+            console.log('🔧 Auto-installing puppeteer-core...');
+
+            try {
+                const { execSync } = require('child_process');
+
+                // Try to install in the current project first
+                if (require('fs').existsSync('package.json')) {
+                    console.log('📦 Installing puppeteer-core as project dependency...');
+                    execSync('npm install puppeteer-core', { stdio: 'inherit' });
+
+                    // Try loading again after installation
+                    const projectPath = path.join(process.cwd(), 'node_modules', 'puppeteer-core');
+                    this.puppeteer = require(projectPath);
+                    puppeteerLoaded = true;
+                    console.log('✅ puppeteer-core installed and loaded successfully!');
+                } else {
+                    console.error('⚠️  No package.json found. Please install puppeteer-core manually:');
+                    console.error('   npm install puppeteer-core');
+                    console.error('   or globally: npm install -g puppeteer-core');
+                    process.exit(1);
+                }
+            } catch (installError) {
+                console.error('❌ Failed to auto-install puppeteer-core:', installError);
+                console.error('💡 Please install manually:');
+                console.error('   npm install puppeteer-core');
+                console.error('   or globally: npm install -g puppeteer-core');
+                process.exit(1);
+            }
+        }
+    }
+
+    /**
+     * Open the session log and create the handlers every browser mode shares
+     */
+    private async initializeCapture(config: DevMirrorConfig): Promise<void> {
+        this.logWriter = new LogWriter(config.outputDir, config);
+        await this.logWriter.initialize();
+
+        // Resolve bundled stack frames back to workspace sources unless disabled
+        if (config.sourceMaps !== false) {
+            this.sourceMaps = new SourceMapResolver();
+        }
+
+        // Initialize event handlers
+        this.consoleHandler = new ConsoleEventHandler(this.logWriter, config, this.sourceMaps || undefined);
+        this.networkHandler = new NetworkEventHandler(this.logWriter, config, this.sourceMaps || undefined);
+        if (config.captureIssues !== false) {
+            this.issueHandler = new IssueEventHandler(this.logWriter, this.sourceMaps || undefined);
+        }
+        if (config.performance?.enabled) {
+            this.performanceMonitor = new PerformanceMonitor(this.logWriter, config.performance, this.sourceMaps || undefined);
+        }
+
+        // Full network capture as a HAR file next to the session log
+        if (config.har?.enabled) {
+            const harPath = this.logWriter.getCurrentLogPath().replace(/\.log$/, '.har');
+            this.harRecorder = new HarRecorder(harPath, config.har);
+            console.log(`├─ Recording HAR: ${path.basename(harPath)}`);
+        }
+
+        if (config.screenshots?.enabled) {
+            this.screenshots = new ScreenshotCapturer(this.logWriter.getCurrentLogPath(), config.screenshots);
+        }
+
+        if (config.intercept?.length) {
+            // Mock files are relative to the project, which is not the cwd when launched through a shim
+            const projectPath = process.env.DEVMIRROR_PKG_PATH || process.cwd();
+            this.interceptor = new RequestInterceptor(this.logWriter, config.intercept, projectPath);
+            console.log(`├─ Intercepting requests: ${config.intercept.length} rule${config.intercept.length === 1 ? '' : 's'}`);
+        }
+
+        // Nobody is there to answer a dialog in unattended runs
+        const dialogPolicy = config.dialogs?.policy || (config.headless || config.ci ? 'accept' : 'manual');
+        this.dialogs = new DialogHandler(this.logWriter, { policy: dialogPolicy, promptText: config.dialogs?.promptText });
+        if (dialogPolicy !== 'manual') {
+            console.log(`├─ JavaScript dialogs: auto-${dialogPolicy === 'accept' ? 'accept' : 'dismiss'}`);
+        }
+
+        // Always available, so a profile can be picked from VS Code mid-session
+        this.emulation = new EmulationController(this.logWriter, config.emulation?.profiles);
+        if (config.emulation?.profile) {
+            try {
+                await this.emulation.switchTo(config.emulation.profile);
+                console.log(`├─ Emulating: ${config.emulation.profile}`);
+            } catch (error: any) {
+                console.log(`├─ ⚠️ ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Attach mode: connect to a Chrome/Edge the user already runs (with --remote-debugging-port)
+     * and capture the tabs matching attach.targets, following new ones as they open
+     */
+    private async startAttachMode(config: DevMirrorConfig): Promise<void> {
+        await this.loadPuppeteer();
+        await this.initializeCapture(config);
+
+        const endpoint = this.resolveAttachEndpoint(config);
+        if (!endpoint) {
+            console.error('❌ No remote debugging endpoint found');
+            console.error('   Start the browser with --remote-debugging-port=9222 and set "attach": { "port": 9222 }');
+            throw new Error('No remote debugging endpoint configured or found in DevToolsActivePort');
+        }
+
+        console.log('🟢 DevMirror Active');
+        console.log(`├─ Attaching to running browser: ${endpoint.browserURL || endpoint.browserWSEndpoint}`);
+        console.log(`├─ Logging to: ${config.outputDir}`);
+
+        this.browser = await this.puppeteer.connect({ ...endpoint, defaultViewport: null });
+        this.attachedToBrowser = true;
+
+        const patterns = config.attach?.targets?.length
+            ? config.attach.targets
+            : config.url ? [`${config.url.replace(/\/$/, '')}*`] : ['*'];
+
+        const captured = await this.capturePageTargets(patterns, config.attach?.followNewTabs !== false,
+            config.tabs?.enabled ? page => this.labelTab(page) : undefined);
+
+        this.browser.on('disconnected', () => {
+            if (!this.isStopping) {
+                this.logWriter.write({
+                    type: 'lifecycle',
+                    message: '════════════ Browser Disconnected ════════════',
+                    timestamp: Date.now()
+                });
+                this.stop();
+            }
+        });
+
+        if (config.node?.enabled) {
+            await this.startNodeCapture(config);
+        }
+
+        if (captured === 0) {
+            console.log(`└─ Waiting for a tab matching ${patterns.join(', ')}`);
+        } else {
+            console.log(`└─ Capturing ${captured} tab(s) matching ${patterns.join(', ')}`);
+        }
+        console.log('\n✅ DevMirror capturing all console output');
+    }
+
+    /**
+     * Electron mode: launch the app with renderer remote debugging and the main process
+     * inspector, then capture every BrowserWindow (labeled by title) and the main process
+     */
+    private async startElectronMode(config: DevMirrorConfig): Promise<void> {
+        await this.loadPuppeteer();
+        await this.initializeCapture(config);
+
+        const electron = config.electron || {};
+        const executablePath = electron.executablePath || this.findElectron();
+        if (!executablePath) {
+            console.error('❌ Electron not found');
+            console.error('   Install electron in the project or set "electron": { "executablePath": "..." }');
+            throw new Error('Electron executable not found');
+        }
+
+        const debuggingPort = electron.remoteDebuggingPort || 9223;
+        const inspectPort = electron.inspectPort || 9230;
+
+        console.log('🟢 DevMirror Active');
+        console.log(`├─ Electron launching: ${executablePath}`);
+        console.log(`├─ Logging to: ${config.outputDir}`);
+
+        this.electronProcess = spawn(executablePath, [
+            `--inspect=${inspectPort}`,
+            `--remote-debugging-port=${debuggingPort}`,
+            electron.appPath || '.',
+            ...(electron.args || [])
+        ], {
+            cwd: process.env.DEVMIRROR_PKG_PATH || process.cwd(),
+            stdio: 'inherit'
+        });
+
+        this.electronProcess.on('exit', (code: number | null) => {
+            if (!this.isStopping) {
+                this.logWriter.write({
+                    type: 'lifecycle',
+                    message: `════════════ Electron App Exited (code ${code}) ════════════`,
+                    timestamp: Date.now()
+                });
+                this.stop();
+            }
+        });
+
+        // The debugging port only opens once Electron has started
+        const browserURL = `http://127.0.0.1:${debuggingPort}`;
+        for (let attempt = 1; !this.browser; attempt++) {
+            try {
+                this.browser = await this.puppeteer.connect({ browserURL, defaultViewport: null });
+            } catch (error) {
+                if (attempt >= 30 || this.electronProcess.exitCode !== null) {
+                    throw error;
+                }
+                await new Promise(resolve => setTimeout(resolve, 500));
+            }
+        }
+
+        // Main process through the Node inspector, tagged [MAIN]
+        await this.startNodeCapture({ ...config, node: { port: inspectPort } }, { type: 'main' });
+
+        // Every BrowserWindow as it opens, tagged [WINDOW <title>]
+        const patterns = electron.windows?.length ? electron.windows : ['/^(?!devtools:)/'];
+        const windows = await this.capturePageTargets(patterns, true, async page => ({
+            type: 'window',
+            url: page.url(),
+            title: await page.title().catch(() => '') || undefined
+        }));
+
+        console.log(`└─ Capturing main process and ${windows} window(s)`);
+        console.log('\n✅ DevMirror capturing all console output');
+    }
+
+    /**
+     * The electron package exports the path of its binary
+     */
+    private findElectron(): string | null {
+        try {
+            return require(path.join(process.env.DEVMIRROR_PKG_PATH || process.cwd(), 'node_modules', 'electron'));
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Capture every page target of this.browser whose URL matches one of the patterns, and
+     * with `follow` also the ones that open or navigate to a match later. `labelFor` gives
+     * the label for a page's entries; unlabeled pages log like the launched browser's tab.
+     */
+    private async capturePageTargets(patterns: string[], follow: boolean,
+                                     labelFor?: (page: any) => Promise<TargetInfo>): Promise<number> {
+        let captured = 0;
+        const captureTab = async (target: any) => {
+            if (target.type() !== 'page' || this.capturedTargets.has(target) ||
+                !patterns.some(pattern => matchesUrlPattern(target.url(), pattern))) {
+                return;
+            }
+            this.capturedTargets.set(target, undefined);
+
+            try {
+                const page = await target.page();
+                if (!page) {
+                    return;
+                }
+                if (!this.page) {
+                    this.page = page;
+                }
+                const pageTarget = labelFor ? await labelFor(page) : undefined;
+                this.capturedTargets.set(target, pageTarget);
+                await this.setupListeners(page, pageTarget);
+                captured++;
+                this.logWriter.write({
+                    type: 'lifecycle',
+                    message: `════════════ ${this.pageTargetName(pageTarget, 'Attached to Tab')} ${pageTarget ? 'Opened ' : ''}════════════`,
+                    url: page.url(),
+                    timestamp: Date.now(),
+                    target: pageTarget
+                });
+            } catch (error: any) {
+                console.log(`   ⚠️ Could not attach to ${target.url()}: ${error.message}`);
+            }
+        };
+
+        for (const target of this.browser.targets()) {
+            await captureTab(target);
+        }
+
+        if (follow) {
+            this.browser.on('targetcreated', captureTab);
+            // A tab that navigates to a matching URL is picked up as well
+            this.browser.on('targetchanged', captureTab);
+            this.browser.on('targetdestroyed', (target: any) => {
+                if (!this.capturedTargets.has(target)) {
+                    return;
+                }
+                const pageTarget = this.capturedTargets.get(target);
+                this.capturedTargets.delete(target);
+                this.logWriter.write({
+                    type: 'lifecycle',
+                    message: `════════════ ${this.pageTargetName(pageTarget, 'Tab')} Closed ════════════`,
+                    timestamp: Date.now(),
+                    target: pageTarget
+                });
+            });
+        }
+
+        return captured;
+    }
+
+    private pageTargetName(pageTarget: TargetInfo | undefined, fallback: string): string {
+        if (pageTarget?.type === 'window') {
+            return 'Window';
+        }
+        return pageTarget?.type === 'tab' ? 'Tab' : fallback;
+    }
+
+    /**
+     * Label for a captured tab: a short sequential id plus the page title, e.g. [TAB 2 Sign in]
+     */
+    private async labelTab(page: any): Promise<TargetInfo> {
+        return {
+            type: 'tab',
+            id: String(++this.tabCounter),
+            url: page.url(),
+            title: await page.title().catch(() => '') || undefined
+        };
+    }
+
+    /**
+     * Capture a `node --inspect` process (dev server, SSR, Electron main process) into the
+     * same session log. Its console output and exceptions are tagged with `target` ([SERVER]
+     * by default) and interleave with the browser's.
+     */
+    private async startNodeCapture(config: DevMirrorConfig, target: TargetInfo = { type: 'server' }): Promise<void> {
+        const options = {
+            host: config.node?.host || '127.0.0.1',
+            port: config.node?.port || 9229,
+            wsEndpoint: config.node?.wsEndpoint,
+            reconnectInterval: 2000
+        };
+        const processName = target.type === 'server' ? 'Server Process' : 'Main Process';
+
+        this.nodeInspector = new NodeInspector(options, async (session, title) => {
+            this.logWriter.write({
+                type: 'lifecycle',
+                message: `════════════ ${processName} Connected (${title}) ════════════`,
+                timestamp: Date.now()
+            });
+
+            // Runtime.enable replays what the process logged before we connected
+            this.attachConsoleListeners(session, target, null);
+            await session.send('Runtime.enable');
+            await this.enableSourceMaps(session);
+            // node --inspect-brk waits for a debugger before running any code
+            await session.send('Runtime.runIfWaitingForDebugger').catch(() => {});
+        }, () => {
+            this.logWriter.write({
+                type: 'lifecycle',
+                message: `════════════ ${processName} Disconnected ════════════`,
+                timestamp: Date.now()
+            });
+        });
+
+        console.log(`├─ Node.js inspector: ${options.wsEndpoint || `${options.host}:${options.port}`}`);
+        await this.nodeInspector.connect();
+    }
+
+    /**
+     * Where to connect in attach mode - explicit config first, then the DevToolsActivePort
+     * file Chrome writes into its profile while remote debugging is on
+     */
+    private resolveAttachEndpoint(config: DevMirrorConfig): { browserURL?: string; browserWSEndpoint?: string } | null {
+        const attach = config.attach || {};
+        if (attach.wsEndpoint) {
+            return { browserWSEndpoint: attach.wsEndpoint };
+        }
+        if (attach.browserURL) {
+            return { browserURL: attach.browserURL };
+        }
+        if (attach.port) {
+            return { browserURL: `http://127.0.0.1:${attach.port}` };
+        }
+
+        const userDataDirs = attach.userDataDir ? [attach.userDataDir] : this.defaultUserDataDirs();
+        for (const userDataDir of userDataDirs) {
+            try {
+                // First line is the port, second the browser target path
+                const [port, browserPath] = fs.readFileSync(path.join(userDataDir, 'DevToolsActivePort'), 'utf8').split('\n');
+                if (port?.trim() && browserPath?.trim()) {
+                    return { browserWSEndpoint: `ws://127.0.0.1:${port.trim()}${browserPath.trim()}` };
+                }
+            } catch {
+                // Browser not running with remote debugging from this profile
+            }
+        }
+
+        return null;
+    }
+
+    private defaultUserDataDirs(): string[] {
+        const home = os.homedir();
+        if (process.platform === 'darwin') {
+            const support = path.join(home, 'Library', 'Application Support');
+            return [path.join(support, 'Google', 'Chrome'), path.join(support, 'Microsoft Edge'), path.join(support, 'Chromium')];
+        } else if (process.platform === 'win32') {
+            const local = process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local');
+            return [path.join(local, 'Google', 'Chrome', 'User Data'), path.join(local, 'Microsoft', 'Edge', 'User Data')];
+        } else {
+            const configDir = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+            return [path.join(configDir, 'google-chrome'), path.join(configDir, 'microsoft-edge'), path.join(configDir, 'chromium')];
+        }
+    }
+
     private findChrome(): string {
         const platform = process.platform;
 
@@ -334,32 +774,154 @@ export class CDPManager {
         }
     }
 
-    private async setupListeners(): Promise<void> {
-        if (!this.page) return;
+    private async setupListeners(page: any = this.page, pageTarget?: TargetInfo): Promise<void> {
+        if (!page) return;
 
-        this.client = await this.page.target().createCDPSession();
+        const client = new PuppeteerSession(await page.target().createCDPSession());
+        const isPrimary = page === this.page;
+        if (isPrimary) {
+            this.client = client;
+            // Before Runtime.enable, which reports the page's existing contexts
+            await this.trackPageLoads(client);
+        }
 
-        await this.client.send('Runtime.enable');
-        await this.client.send('Network.enable');
+        await client.send('Runtime.enable');
+        await client.send('Network.enable');
 
         // Enable both Log and Console domains to capture all possible warning sources
-        await this.client.send('Log.enable');
-        await this.client.send('Console.enable');
+        await client.send('Log.enable');
+        await client.send('Console.enable');
 
-        await this.client.send('Security.enable');
-        await this.client.send('Page.enable');
+        await client.send('Security.enable');
+        await client.send('Page.enable');
 
         // Set up console capture for CDP mode
-        this.client.on('Runtime.consoleAPICalled', (event: any) => {
-            this.consoleHandler.handleConsoleAPI(event);
+        this.attachConsoleListeners(client, pageTarget);
+        await this.enableSourceMaps(client);
+
+        this.attachNetworkListeners(client, pageTarget);
+        await this.enableInterception(client, pageTarget);
+        await this.enableEmulation(client);
+        page.once('close', () => this.emulation?.detach(client));
+        this.attachDialogListeners(client, pageTarget);
+
+        client.on('Security.securityStateChanged', (event: any) => {
+            if (event.securityState === 'insecure') {
+                const summary = event.summary || 'Security issue detected';
+                this.logWriter.write({
+                    type: 'browser',
+                    level: 'warning',
+                    message: `Security: ${summary}`,
+                    timestamp: Date.now(),
+                    target: pageTarget
+                });
+            }
+        });
+
+        // DevTools Issues tab - CORS, CSP, cookie and mixed content problems
+        await this.enableIssues(client, pageTarget);
+        await this.enablePerformance(client, isPrimary, pageTarget);
+
+        client.on('Page.loadEventFired', async () => {
+            const timestamp = Date.now();
+            // Window titles are usually set by the page itself
+            if (pageTarget) {
+                pageTarget.title = await page.title().catch(() => pageTarget.title) || pageTarget.title;
+            }
+            this.logWriter.write({
+                type: 'lifecycle',
+                message: '════════════ Page Loaded ════════════',
+                url: page.url(),
+                timestamp,
+                target: pageTarget
+            });
+        });
+
+        client.on('Page.frameNavigated', (event: any) => {
+            this.issueHandler?.handleFrameNavigated(event, pageTarget);
+            if (event.frame.parentId === undefined) {
+                // Groups left open by the previous page do not carry over
+                this.consoleHandler.resetGroups(pageTarget);
+                this.logWriter.write({
+                    type: 'lifecycle',
+                    message: '════════════ Page Navigated ════════════',
+                    url: event.frame.url,
+                    timestamp: Date.now(),
+                    target: pageTarget
+                });
+            }
+        });
+
+        // Follow iframes, dedicated/shared workers and service workers
+        await this.enableAutoAttach(client);
+
+        page.on('pageerror', (error: any) => {
+            this.logWriter.write({
+                type: 'error',
+                message: error.message,
+                stack: error.stack,
+                timestamp: Date.now(),
+                screenshot: this.captureScreenshot(client),
+                target: pageTarget
+            });
+        });
+
+        page.on('error', (error: any) => {
+            this.logWriter.write({
+                type: 'error',
+                message: `Page crashed: ${error.message}`,
+                timestamp: Date.now(),
+                target: pageTarget
+            });
+        });
 
-            // Check for Vite errors in console messages
-            if (event.type === 'error' || event.type === 'warn') {
-                const message = event.args?.map((arg: any) => arg.value || arg.description || '').join(' ');
+        page.on('requestfailed', (request: any) => {
+            const failure = request.failure();
+            if (failure) {
+                this.logWriter.write({
+                    type: 'network',
+                    message: `Request failed: ${failure.errorText}`,
+                    url: request.url(),
+                    timestamp: Date.now(),
+                    target: pageTarget
+                });
+            }
+        });
+    }
+
+    /**
+     * Route console, exception and browser log events from a CDP session
+     * through the shared console handler, tagged with the originating target.
+     * pageSession is the tab the session belongs to, used for error screenshots.
+     *
+     * An event whose frames point at a source map still loading is held back until it
+     * is loaded, and later events of the session queue behind it to keep their order.
+     */
+    private attachConsoleListeners(session: CDPSession, target?: TargetInfo, pageSession: CDPSession | null = session): void {
+        let queue: Promise<void> = Promise.resolve();
+        let queued = 0;
+        const inOrder = (frames: any[], handle: () => void) => {
+            const loaded = this.sourceMaps?.whenLoaded(frames);
+            if (!loaded && queued === 0) {
+                handle();
+                return;
+            }
+
+            queued++;
+            queue = queue.then(() => loaded || undefined).then(() => {
+                try {
+                    handle();
+                } finally {
+                    queued--;
                 }
+            }).catch(error => console.error('Error handling console event:', error));
+        };
+
+        session.on('Runtime.consoleAPICalled', (event: any) => {
+            inOrder(event.stackTrace?.callFrames || [], () => this.consoleHandler.handleConsoleAPI(event, target, session));
         });
 
-        this.client.on('Runtime.exceptionThrown', (event: any) => {
+        session.on('Runtime.exceptionThrown', (event: any) => {
             // Debug log the raw CDP event if debug is enabled
             if (this.config.debug?.enabled && this.config.debug?.logExceptions) {
                 const logToConsole = this.config.debug.logToConsole !== false;
@@ -367,20 +929,107 @@ export class CDPManager {
                     console.log('[DevMirror Debug] Raw Runtime.exceptionThrown event:', JSON.stringify(event, null, 2));
                 }
             }
-            this.consoleHandler.handleExceptionThrown(event.exceptionDetails);
+            const details = event.exceptionDetails;
+            const screenshot = this.captureScreenshot(pageSession);
+            inOrder([details, ...(details.stackTrace?.callFrames || [])], () =>
+                this.consoleHandler.handleExceptionThrown(details, target, screenshot)
+            );
         });
 
+        session.on('Log.entryAdded', (event: any) => {
+            // Violation reports are performance signals, not console output
+            if (event.entry?.source === 'violation' && this.performanceMonitor) {
+                this.performanceMonitor.handleViolation(event, target);
+                return;
+            }
+
+            // Debug log the raw CDP event if debug is enabled
+            if (this.config.debug?.enabled && this.config.debug?.logLogEntries) {
+                const logToConsole = this.config.debug.logToConsole !== false;
+                if (logToConsole) {
+                    console.log('[DevMirror Debug] Raw Log.entryAdded event:', JSON.stringify(event, null, 2));
+                }
+            }
+            const entry = event.entry || {};
+            inOrder([entry, ...(entry.stackTrace?.callFrames || [])], () => this.consoleHandler.handleLogEntry(event, target));
+        });
+    }
+
+    /**
+     * Execution-context tracking for the main tab, as in CEF mode: every new default
+     * context of the main frame is a page load - full HMR reloads and same-URL reloads
+     * included - and starts the next numbered segment of the log.
+     */
+    private async trackPageLoads(session: CDPSession): Promise<void> {
+        let mainFrameId: string;
+        try {
+            mainFrameId = (await session.send('Page.getFrameTree')).frameTree.frame.id;
+        } catch (error: any) {
+            console.log(`   ⚠️ Reload tracking unavailable: ${error.message}`);
+            return;
+        }
+
+        session.on('Runtime.executionContextCreated', (event: any) => {
+            const context = event.context;
+            // about:blank before the first navigation has an opaque origin
+            if (!context.auxData?.isDefault || context.auxData.frameId !== mainFrameId ||
+                !context.origin || context.origin === '://' || context.origin === 'null') {
+                return;
+            }
+
+            if (this.currentContextId === null) {
+                this.currentContextId = context.id;
+                this.sessionStartTime = new Date();
+                this.logWriter.setSegment(1);
+            } else if (context.id !== this.currentContextId) {
+                this.writeReloadBanner(this.currentContextId, context.id, context.name || 'Main');
+                this.currentContextId = context.id;
+            }
+        });
+    }
+
+    /**
+     * Prominent reload marker. Starts the next segment, so entries of this page load can
+     * be told apart from the previous ones.
+     */
+    private writeReloadBanner(previousContextId: number, newContextId: number, contextName: string): void {
+        this.contextCount++;
+        this.logWriter.setSegment(this.contextCount + 1);
+        const elapsed = ((Date.now() - this.sessionStartTime.getTime()) / 1000).toFixed(1);
+
+        const now = new Date();
+        const localTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${Math.floor(now.getMilliseconds() / 100)}`;
+        this.logWriter.write({
+            type: 'lifecycle',
+            message: `\n${'═'.repeat(80)}\n` +
+                    `║ 🔄 RELOAD/REFRESH DETECTED (#${this.contextCount})\n` +
+                    `║ Segment: ${this.contextCount + 1}\n` +
+                    `║ Previous Context ID: ${previousContextId}\n` +
+                    `║ New Context ID: ${newContextId} (${contextName})\n` +
+                    `║ Session Time: ${elapsed}s\n` +
+                    `║ Local Time: ${localTime}\n` +
+                    `${'═'.repeat(80)}\n`,
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Route network events from a CDP session through the shared network handler and the HAR recorder
+     */
+    private attachNetworkListeners(session: CDPSession, target?: TargetInfo): void {
         // Store request initiators for stack trace tracking
         const requestInitiators = new Map<string, any>();
 
-        this.client.on('Network.requestWillBeSent', (event: any) => {
+        session.on('Network.requestWillBeSent', (event: any) => {
             // Store the initiator for this request ID
             if (event.initiator) {
                 requestInitiators.set(event.requestId, event.initiator);
             }
+            this.networkHandler.handleRequestWillBeSent(event);
+            this.harRecorder?.handleRequestWillBeSent(event);
         });
 
-        this.client.on('Network.loadingFailed', (event: any) => {
+        session.on('Network.loadingFailed', (event: any) => {
             // Add initiator if available
             const initiator = requestInitiators.get(event.requestId);
             if (initiator) {
@@ -388,11 +1037,12 @@ export class CDPManager {
                 requestInitiators.delete(event.requestId);
             }
             this.networkHandler.handleLoadingFailed(event);
+            this.harRecorder?.handleLoadingFailed(event);
 
             // Check for Vite module loading errors
         });
 
-        this.client.on('Network.responseReceived', (event: any) => {
+        session.on('Network.responseReceived', (event: any) => {
             // Add initiator if available
             const initiator = requestInitiators.get(event.requestId);
             if (initiator) {
@@ -400,79 +1050,181 @@ export class CDPManager {
                 // Keep for potential loadingFailed event
             }
             this.networkHandler.handleResponseReceived(event);
+            this.harRecorder?.handleResponseReceived(event);
         });
 
-        this.client.on('Log.entryAdded', (event: any) => {
-            // Debug log the raw CDP event if debug is enabled
-            if (this.config.debug?.enabled && this.config.debug?.logLogEntries) {
-                const logToConsole = this.config.debug.logToConsole !== false;
-                if (logToConsole) {
-                    console.log('[DevMirror Debug] Raw Log.entryAdded event:', JSON.stringify(event, null, 2));
-                }
-            }
-            this.consoleHandler.handleLogEntry(event);
-        });
+        // WebSocket and EventSource traffic (filtered by config.networkMessages)
+        session.on('Network.webSocketCreated', (event: any) => this.networkHandler.handleWebSocketCreated(event, target));
+        session.on('Network.webSocketFrameSent', (event: any) => this.networkHandler.handleWebSocketFrameSent(event, target));
+        session.on('Network.webSocketFrameReceived', (event: any) => this.networkHandler.handleWebSocketFrameReceived(event, target));
+        session.on('Network.webSocketFrameError', (event: any) => this.networkHandler.handleWebSocketFrameError(event, target));
+        session.on('Network.webSocketClosed', (event: any) => this.networkHandler.handleWebSocketClosed(event, target));
+        session.on('Network.eventSourceMessageReceived', (event: any) => this.networkHandler.handleEventSourceMessageReceived(event, target));
+        session.on('Network.loadingFinished', (event: any) => {
+            this.networkHandler.handleLoadingFinished(event);
+            this.harRecorder?.handleLoadingFinished(event, session);
+        });
+
+        if (this.harRecorder) {
+            const harRecorder = this.harRecorder;
+            session.on('Network.requestWillBeSentExtraInfo', (event: any) => harRecorder.handleRequestWillBeSentExtraInfo(event));
+            session.on('Network.responseReceivedExtraInfo', (event: any) => harRecorder.handleResponseReceivedExtraInfo(event));
+        }
+    }
+
+    /**
+     * Screenshot of the page for an error entry - always taken through the page session,
+     * since workers cannot capture. Rate-limited by the capturer.
+     */
+    private captureScreenshot(pageSession: CDPSession | null): string | undefined {
+        if (!this.screenshots || !pageSession) {
+            return undefined;
+        }
+        return this.screenshots.capture(pageSession) || undefined;
+    }
+
+    /**
+     * Collect sourceMapURLs for every script the session parses
+     */
+    private async enableSourceMaps(session: CDPSession): Promise<void> {
+        if (!this.sourceMaps) {
+            return;
+        }
+
+        const sourceMaps = this.sourceMaps;
+        session.on('Debugger.scriptParsed', (event: any) => {
+            sourceMaps.handleScriptParsed(event);
+        });
+
+        try {
+            await session.send('Debugger.enable');
+            // An enabled debugger stops on `debugger;` statements - we only want script metadata
+            await session.send('Debugger.setSkipAllPauses', { skip: true });
+        } catch (error: any) {
+            console.log(`   ⚠️ Source maps unavailable for this target: ${error.message}`);
+        }
+    }
+
+    /**
+     * Report Audits.issueAdded for a session, unless disabled with captureIssues: false
+     */
+    private async enableIssues(session: CDPSession, target?: TargetInfo): Promise<void> {
+        if (!this.issueHandler) {
+            return;
+        }
+
+        const issueHandler = this.issueHandler;
+        session.on('Audits.issueAdded', (event: any) => issueHandler.handleIssueAdded(event, target));
+        await session.send('Audits.enable').catch(() => {});  // Workers do not have the Audits domain
+    }
+
+    /**
+     * Apply the intercept rules to a session's requests through the Fetch domain
+     */
+    private async enableInterception(session: CDPSession, target?: TargetInfo): Promise<void> {
+        if (!this.interceptor) {
+            return;
+        }
+
+        const interceptor = this.interceptor;
+        session.on('Fetch.requestPaused', (event: any) => interceptor.handleRequestPaused(event, session, target));
+        try {
+            await interceptor.enable(session);
+        } catch (error: any) {
+            console.log(`   ⚠️ Request interception unavailable: ${error.message}`);
+        }
+    }
+
+    /**
+     * Log JavaScript dialogs of a page session and answer them per the dialog policy (needs Page.enable)
+     */
+    private attachDialogListeners(session: CDPSession, target?: TargetInfo): void {
+        const dialogs = this.dialogs;
+        session.on('Page.javascriptDialogOpening', (event: any) => dialogs.handleDialogOpening(event, session, target));
+        session.on('Page.javascriptDialogClosed', (event: any) => dialogs.handleDialogClosed(event, session, target));
+    }
+
+    /**
+     * Put a page session under the active emulation profile and keep it in step with later switches
+     */
+    private async enableEmulation(session: CDPSession): Promise<void> {
+        try {
+            await this.emulation?.attach(session);
+        } catch (error: any) {
+            console.log(`   ⚠️ Emulation unavailable: ${error.message}`);
+        }
+    }
+
+    /**
+     * Switch every captured page to another emulation profile
+     */
+    async setEmulationProfile(name: string): Promise<void> {
+        if (!this.emulation) {
+            throw new Error('Capture has not started');
+        }
+        await this.emulation.switchTo(name);
+        console.log(`📶 Emulating: ${name}`);
+    }
 
+    getEmulationProfiles(): { profiles: { name: string; description: string }[]; active: string | null } {
+        return {
+            profiles: this.emulation?.getProfiles() || [],
+            active: this.emulation?.getActiveProfile() || null
+        };
+    }
 
-        this.client.on('Security.securityStateChanged', (event: any) => {
-            if (event.securityState === 'insecure') {
-                const summary = event.summary || 'Security issue detected';
-                this.logWriter.write({
-                    type: 'browser',
-                    level: 'warning',
-                    message: `Security: ${summary}`,
-                    timestamp: Date.now()
-                });
-            }
-        });
+    /**
+     * Timeline events and violation reports for a session; metrics are sampled for the page only
+     */
+    private async enablePerformance(session: CDPSession, sampleMetrics: boolean, target?: TargetInfo): Promise<void> {
+        if (!this.performanceMonitor) {
+            return;
+        }
 
-        this.client.on('Page.loadEventFired', () => {
-            this.logWriter.write({
-                type: 'lifecycle',
-                message: '════════════ Page Loaded ════════════',
-                url: this.page?.url(),
-                timestamp: Date.now()
-            });
+        const performanceMonitor = this.performanceMonitor;
+        session.on('PerformanceTimeline.timelineEventAdded', (event: any) => {
+            performanceMonitor.handleTimelineEvent(event, target, session);
         });
+        await performanceMonitor.enable(session, sampleMetrics);
+    }
 
-        this.client.on('Page.frameNavigated', (event: any) => {
-            if (event.frame.parentId === undefined) {
-                this.logWriter.write({
-                    type: 'lifecycle',
-                    message: '════════════ Page Navigated ════════════',
-                    url: event.frame.url,
-                    timestamp: Date.now()
-                });
+    /**
+     * Auto-attach (flattened) to child targets of a session - cross-origin iframes,
+     * dedicated/shared workers and service workers - and capture their console output and network traffic.
+     * Child sessions enable auto-attach themselves so nested workers are followed too.
+     */
+    private async enableAutoAttach(session: CDPSession, pageSession: CDPSession = session): Promise<void> {
+        session.on('Target.attachedToTarget', async (event: any) => {
+            const info = event.targetInfo;
+            const child = session.session(event.sessionId);
+            if (!child) {
+                return;
             }
-        });
 
-        this.page.on('pageerror', (error: any) => {
-            this.logWriter.write({
-                type: 'error',
-                message: error.message,
-                stack: error.stack,
-                timestamp: Date.now()
-            });
-        });
+            const target: TargetInfo = { type: info.type, url: info.url, targetId: info.targetId };
+            this.attachConsoleListeners(child, target, pageSession);
+            this.attachNetworkListeners(child, target);
 
-        this.page.on('error', (error: any) => {
-            this.logWriter.write({
-                type: 'error',
-                message: `Page crashed: ${error.message}`,
-                timestamp: Date.now()
-            });
+            try {
+                await child.send('Runtime.enable');
+                await child.send('Network.enable').catch(() => {});  // Requests made by workers and iframes, for the log and the HAR
+                await child.send('Log.enable').catch(() => {});  // Not every target type has the Log domain
+                await this.enableSourceMaps(child);
+                await this.enableIssues(child, target);
+                await this.enablePerformance(child, false, target);
+                await this.enableAutoAttach(child, pageSession);
+            } catch (error: any) {
+                console.log(`   ⚠️ Could not enable capture for ${info.type} ${info.url}: ${error.message}`);
+            } finally {
+                // The target is paused until we let it run (waitForDebuggerOnStart)
+                child.send('Runtime.runIfWaitingForDebugger').catch(() => {});
+            }
         });
 
-        this.page.on('requestfailed', (request: any) => {
-            const failure = request.failure();
-            if (failure) {
-                this.logWriter.write({
-                    type: 'network',
-                    message: `Request failed: ${failure.errorText}`,
-                    url: request.url(),
-                    timestamp: Date.now()
-                });
-            }
+        await session.send('Target.setAutoAttach', {
+            autoAttach: true,
+            waitForDebuggerOnStart: true,
+            flatten: true
         });
     }
 
@@ -630,7 +1382,15 @@ export class CDPManager {
         });
     }
 
-    async stop(): Promise<void> {
+    /**
+     * Stop capturing and exit. Without an explicit exit code, CI runs exit with 1 when
+     * more errors than ci.maxErrors were captured. `reason` ends up in the CI summary.
+     */
+    async stop(exitCode?: number, reason?: string): Promise<void> {
+        this.isStopping = true;  // Disconnecting an attached browser must not trigger another stop
+        if (reason) {
+            this.stopReason = reason;
+        }
         console.log('\n🛑 Shutting down DevMirror...');
 
         // Clear any pending reconnect timers
@@ -638,18 +1398,32 @@ export class CDPManager {
             clearTimeout(this.reconnectTimer);
             this.reconnectTimer = null;
         }
+        if (this.completionTimer) {
+            clearTimeout(this.completionTimer);
+            this.completionTimer = null;
+        }
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
         this.isReconnecting = false;
         this.reconnectAttempts = 0;
 
+        // Stop metrics sampling before the session goes away
+        this.performanceMonitor?.stop();
+        this.nodeInspector?.close();
+
+        // Write the final HAR while the connection is up - late bodies can still be fetched
+        if (this.harRecorder) {
+            await this.harRecorder.close();
+            this.harRecorder = null;
+        }
+
         // Close WebSocket immediately to stop receiving messages
-        if (this.activeWebSocket) {
-            try {
-                this.activeWebSocket.removeAllListeners?.();
-                this.activeWebSocket.close();
-            } catch (e) {
-                // Ignore errors on close
-            }
-            this.activeWebSocket = null;
+        if (this.activeConnection) {
+            this.activeConnection.removeAllListeners();
+            this.activeConnection.close();
+            this.activeConnection = null;
         }
 
         // Clear client
@@ -664,38 +1438,124 @@ export class CDPManager {
             this.client = null;
         }
 
-        // Close browser if in browser mode
+        // Close browser if in browser mode - a browser we attached to is only disconnected
         if (this.browser) {
             try {
-                await this.browser.close();
+                if (this.attachedToBrowser) {
+                    await this.browser.disconnect();
+                } else {
+                    await this.browser.close();
+                }
             } catch (e) {
                 // Ignore errors on close
             }
             this.browser = null;
         }
 
+        // Browser.close quits an Electron app - make sure it is gone
+        if (this.electronProcess) {
+            if (this.electronProcess.exitCode === null) {
+                this.electronProcess.kill();
+            }
+            this.electronProcess = null;
+        }
+
         // Close log writer to prevent empty file creation
         if (this.logWriter) {
             await this.logWriter.close();
         }
 
+        const code = this.writeRunSummary(exitCode);
+
         console.log('   ✅ DevMirror shutdown complete');
 
         // Exit the process cleanly
-        process.exit(0);
+        process.exit(code);
+    }
+
+    /**
+     * Arm the CI stop conditions: a fixed duration and/or a delay after the network goes idle.
+     * Without a usable one the run would never end, so it falls back to DEFAULT_CI_DURATION.
+     */
+    private scheduleCompletion(config: DevMirrorConfig): void {
+        const ci = config.ci!;
+        const complete = (reason: string) => {
+            if (!this.isStopping) {
+                this.stopReason = reason;
+                this.stop();
+            }
+        };
+
+        const waitsForIdle = ci.networkIdle !== undefined && !!this.page;
+        let duration = ci.duration;
+        if (!duration && !waitsForIdle) {
+            duration = DEFAULT_CI_DURATION;
+            console.log(`⚠️  No CI stop condition applies (duration, or networkIdle with a browser page) - stopping after ${duration}s`);
+        }
+
+        if (duration) {
+            console.log(`├─ Stopping after ${duration}s`);
+            this.completionTimer = setTimeout(() => complete('duration'), duration * 1000);
+        }
+
+        if (waitsForIdle) {
+            this.page.waitForNetworkIdle({ idleTime: 500, timeout: 0 }).then(() => {
+                if (this.isStopping) {
+                    return;
+                }
+                console.log(`├─ Network idle - stopping in ${ci.networkIdle}s`);
+                this.idleTimer = setTimeout(() => complete('network-idle'), ci.networkIdle! * 1000);
+            }).catch(() => {
+                // Page closed before the network settled
+            });
+        }
+    }
+
+    /**
+     * Print the summary line and, for CI runs, write the JSON summary. Returns the exit code -
+     * an explicit one (a crash) decides the result over the error count.
+     */
+    private writeRunSummary(exitCode?: number): number {
+        const ci = this.config?.ci;
+        if (!ci || !this.logWriter) {
+            return exitCode ?? 0;
+        }
+
+        const stats = this.logWriter.getStats();
+        const maxErrors = ci.maxErrors ?? 0;
+        const passed = exitCode === undefined ? stats.errors <= maxErrors : exitCode === 0;
+        const summary = {
+            result: passed ? 'passed' : 'failed',
+            exitCode: exitCode ?? (passed ? 0 : 1),
+            stopReason: this.stopReason,
+            url: this.config?.url,
+            mode: this.config?.mode,
+            startedAt: new Date(this.startedAt).toISOString(),
+            durationMs: Date.now() - this.startedAt,
+            logFile: this.logWriter.getCurrentLogPath(),
+            maxErrors,
+            ...stats
+        };
+
+        console.log(`   📊 ${stats.entries} entries, ${stats.errors} errors, ${stats.warnings} warnings - ` +
+            (passed ? 'passed' : exitCode !== undefined ? `failed (${this.stopReason})` : `failed (more than ${maxErrors} errors)`));
+
+        const summaryPath = path.resolve(ci.summaryFile || path.join(this.config!.outputDir, 'devmirror-summary.json'));
+        try {
+            fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
+            console.log(`   📄 Summary: ${summaryPath}`);
+        } catch (error: any) {
+            console.log(`   ⚠️ Could not write summary: ${error.message}`);
+        }
+
+        return summary.exitCode;
     }
 
     private async startCEFMode(config: DevMirrorConfig): Promise<void> {
         // Initialize LogWriter ONCE at the beginning
         if (!this.logWriter) {
-            const outputDir = config.outputDir || './devmirror-logs';
-            this.logWriter = new LogWriter(outputDir, config);
-            await this.logWriter.initialize();
-
-            // Initialize event handlers
-            this.consoleHandler = new ConsoleEventHandler(this.logWriter, config);
-            this.networkHandler = new NetworkEventHandler(this.logWriter);
-                }
+            await this.initializeCapture({ ...config, outputDir: config.outputDir || './devmirror-logs' });
+        }
 
         console.log('🎨 DevMirror Active (CEF Debug Mode - Direct Connection)');
         console.log(`├─ CEF Debug Port: ${config.cefPort}`);
@@ -999,116 +1859,114 @@ export class CDPManager {
         });
     }
 
-    private captureConsoleEvent(method: string, params: any): void {
-        // Universal CDP event capture for comprehensive logging
-        if (!this.logWriter) {
-            console.log('   ⚠️ LogWriter not ready for event:', method);
+    /**
+     * Print every CDP message of a direct connection when debug.logRawCDP is on
+     */
+    private logRawTraffic(connection: CDPConnection): void {
+        const debug = this.config?.debug;
+        if (!debug?.enabled || !debug.logRawCDP) {
             return;
         }
+        connection.on('message', (message: any, direction: string) => {
+            console.log(`[DevMirror Debug] CDP ${direction === 'sent' ? '→' : '←'} ${JSON.stringify(message)}`);
+        });
+    }
 
-        try {
-            // Handle different event types universally
-            if (method === 'Runtime.consoleAPICalled') {
-                // Process console.log, console.error, etc.
-                const args = params.args || [];
-                const type = params.type || 'log';
-
-                // Extract source location if available
-                let source = '';
-                if (params.stackTrace?.callFrames?.[0]) {
-                    const frame = params.stackTrace.callFrames[0];
-                    const fileName = frame.url ? frame.url.split('/').pop() : '';
-                    if (fileName && frame.lineNumber) {
-                        source = `[${fileName}:${frame.lineNumber}] `;
-                    }
-                }
-
-                // Convert all arguments to strings - synchronously
-                const message = args.map((arg: any) => {
-                    // Handle primitive values
-                    if (arg.value !== undefined) {
-                        return String(arg.value);
-                    }
+    /**
+     * Filter for CEF events before they reach the shared handlers. Console output from
+     * contexts that were already running when we connected is skipped, and events that
+     * were already written - Runtime.enable replays buffered messages on every
+     * reconnect - are recognized by their identity and dropped.
+     */
+    private acceptCEFEvent(method: string, params: any): boolean {
+        const captured = method === 'Runtime.consoleAPICalled' || method === 'Runtime.exceptionThrown' ||
+                         method === 'Log.entryAdded' || method.startsWith('Network.');
+        if (!captured) {
+            return true;
+        }
 
-                    // Handle objects with preview (synchronous)
-                    if (arg.type === 'object' && arg.preview?.properties) {
-                        const props = arg.preview.properties
-                            .map((p: any) => `${p.name}: ${p.value || p.type}`)
-                            .join(', ');
-                        const overflow = arg.preview.overflow ? ', ...' : '';
-                        return `${arg.className || 'Object'} {${props}${overflow}}`;
-                    }
+        if (this.waitingForFreshContext) {
+            if (method === 'Runtime.consoleAPICalled') {
+                console.log(`   ⏭️ Ignoring message (waiting for fresh context): context=${params.executionContextId}`);
+            }
+            return false;
+        }
 
-                    // Handle description (including JSON objects and arrays)
-                    if (arg.description) {
-                        // Check if it's a JSON object or array and format it properly
-                        if ((arg.description.startsWith('{') && arg.description.endsWith('}')) ||
-                            (arg.description.startsWith('[') && arg.description.endsWith(']'))) {
-                            try {
-                                // Parse and re-stringify with proper indentation
-                                const obj = JSON.parse(arg.description);
-
-                                // Format JSON with proper indentation for clean folding
-                                const formatted = JSON.stringify(obj, null, 2);
-
-                                // Split into lines
-                                const lines = formatted.split('\n');
-
-                                // Process each line - add 2 spaces to ALL lines except first
-                                const indented = lines.map((line, i) => {
-                                    if (i === 0) {
-                                        return line;  // First line stays inline
-                                    }
-                                    return '  ' + line;  // All other lines get 2 spaces
-                                }).join('\n');
-
-                                return indented;
-                            } catch (e) {
-                                // Not valid JSON, return as-is
-                                return arg.description;
-                            }
-                        }
-                        return arg.description;
-                    }
+        if (method === 'Runtime.consoleAPICalled' || method === 'Runtime.exceptionThrown') {
+            const contextId = method === 'Runtime.consoleAPICalled'
+                ? params.executionContextId
+                : params.exceptionDetails?.executionContextId;
+            const isConsole = method === 'Runtime.consoleAPICalled';
 
-                    // Handle other object types
-                    if (arg.type === 'object' && arg.className) {
-                        return `[${arg.className}]`;
-                    }
+            // If message is from initial context that we determined was stale, ignore it
+            if (this.initialContextsSeen.has(contextId)) {
+                if (isConsole) {
+                    console.log(`   ⏭️ Ignoring stale context message: context=${contextId}`);
+                }
+                return false;
+            }
 
-                    return arg.type || 'undefined';
-                }).join(' ');
+            // ONLY capture if from current context
+            if (contextId === undefined || contextId !== this.currentContextId) {
+                if (isConsole && contextId !== undefined) {
+                    console.log(`   🚫 Ignoring message from context ${contextId} (current: ${this.currentContextId})`);
+                } else if (isConsole) {
+                    console.log(`   ⚠️ Console event without executionContextId - ignoring`);
+                }
+                return false;
+            }
+        }
 
-                this.logWriter.write({
-                    type: 'console',
-                    method: type,
-                    message: source + message,
-                    timestamp: Date.now()
-                });
+        // Older CEF builds mirror every console call into the Log domain as well
+        if (method === 'Log.entryAdded' && params.entry?.source === 'console-api') {
+            return false;
+        }
 
+        const key = this.cefEventKey(method, params);
+        if (key === null) {
+            return true;
+        }
+        if (this.cefSeenEvents.has(key)) {
+            return false;
+        }
+        this.cefSeenEvents.add(key);
 
-            } else if (method === 'Runtime.exceptionThrown') {
-                // Handle exceptions
-                const details = params.exceptionDetails;
-                this.logWriter.write({
-                    type: 'error',
-                    message: details.text || details.exception?.description || 'JavaScript Error',
-                    stack: details.stackTrace,
-                    timestamp: Date.now()
-                });
+        // Keep the most recent identities only - replays never reach further back than that
+        if (this.cefSeenEvents.size > 5000) {
+            this.cefSeenEvents.delete(this.cefSeenEvents.values().next().value!);
+        }
+        return true;
+    }
 
-            } else {
-                // Capture any other console-related events generically
-                const message = JSON.stringify(params).substring(0, 500);
-                this.logWriter.write({
-                    type: 'console',
-                    method: method.split('.').pop() || 'unknown',
-                    message: message,
-                    timestamp: Date.now()
-                });
+    /**
+     * What makes a CEF event distinct - null for events that are never replayed
+     */
+    private cefEventKey(method: string, params: any): string | null {
+        switch (method) {
+            case 'Runtime.consoleAPICalled': {
+                const frame = params.stackTrace?.callFrames?.[0];
+                const location = frame ? `${frame.url}:${frame.lineNumber}:${frame.columnNumber}` : '';
+                // Timestamps are ms-resolution - a loop logs different values from one line within one
+                const args = this.hashMessage(JSON.stringify((params.args || []).map((arg: any) =>
+                    arg.value ?? arg.unserializableValue ?? arg.description ?? arg.type
+                )));
+                return `console:${params.executionContextId}:${params.timestamp}:${params.type}:${location}:${args}`;
             }
-        } catch (error) {
-            console.log('   Error capturing console event:', error);
+            case 'Runtime.exceptionThrown': {
+                const details = params.exceptionDetails || {};
+                return `exception:${details.executionContextId}:${params.timestamp}:${details.text}:${details.lineNumber}:${details.columnNumber}`;
+            }
+            case 'Log.entryAdded': {
+                const entry = params.entry || {};
+                return `log:${entry.timestamp}:${entry.source}:${entry.level}:${entry.url}:${entry.lineNumber}:${entry.text}`;
+            }
+            case 'Network.requestWillBeSent':
+            case 'Network.responseReceived':
+            case 'Network.loadingFailed':
+            case 'Network.loadingFinished':
+                return `${method}:${params.requestId}:${params.timestamp}`;
+            default:
+                return null;
         }
     }
 
@@ -1187,15 +2045,11 @@ export class CDPManager {
             console.log(`   🔗 Creating CDP connection #${CDPManager.connectionCount}`);
 
             // Clean up any existing WebSocket connection
-            if (this.activeWebSocket) {
+            if (this.activeConnection) {
                 console.log('   🧹 Cleaning up existing WebSocket connection');
-                try {
-                    this.activeWebSocket.removeAllListeners?.();
-                    this.activeWebSocket.close();
-                } catch (e) {
-                    // Ignore errors during cleanup
-                }
-                this.activeWebSocket = null;
+                this.activeConnection.removeAllListeners();
+                this.activeConnection.close();
+                this.activeConnection = null;
             }
 
             // Clear any pending reconnect
@@ -1207,73 +2061,27 @@ export class CDPManager {
 
             // For CEF, we need a direct WebSocket connection without browser-level abstractions
             try {
-                // Import WebSocket for direct connection
-                const WebSocket = require('ws');
-
-                // Create direct WebSocket connection to CEF
-                const ws = new WebSocket(browserWSEndpoint);
-                // Note: activeWebSocket is set later after all setup
-
-                let messageId = 1;
-                const pendingCallbacks = new Map();
-
-                // Create a minimal CDP client for CEF
-                this.client = {
-                    send: (method: string, params?: any) => {
-                        return new Promise((resolve, reject) => {
-                            const id = messageId++;
-                            const message = JSON.stringify({ id, method, params: params || {} });
-
-                            pendingCallbacks.set(id, { resolve, reject });
+                console.log('   🔌 Opening WebSocket connection...');
 
-                            if (ws.readyState === WebSocket.OPEN) {
-                                ws.send(message);
-                            } else {
-                                ws.once('open', () => ws.send(message));
-                            }
+                // Events from stale contexts and replays of events already written are
+                // dropped before they reach the handlers
+                const connection = await CDPConnection.connect(browserWSEndpoint, {
+                    filter: (method, params) => this.acceptCEFEvent(method, params)
+                });
+                const session = connection.root;
+                this.client = session;
+                this.logRawTraffic(connection);
 
-                            // Timeout for commands
-                            setTimeout(() => {
-                                if (pendingCallbacks.has(id)) {
-                                    pendingCallbacks.delete(id);
-                                    reject(new Error(`Command ${method} timed out`));
-                                }
-                            }, 5000);
-                        });
-                    },
-                    on: (event: string, handler: Function) => {
-                        // Store event handlers
-                        if (!this.client._eventHandlers) {
-                            this.client._eventHandlers = {};
-                        }
-                        if (!this.client._eventHandlers[event]) {
-                            this.client._eventHandlers[event] = [];
-                        }
-                        this.client._eventHandlers[event].push(handler);
-                    },
-                    _eventHandlers: {}
-                };
+                console.log('   ✅ WebSocket connected to CEF');
 
                 // LogWriter should already be initialized - don't create new one!
 
-                // Handle WebSocket messages with execution context filtering
-                ws.on('message', (data: string) => {
+                // Track execution contexts from the raw traffic, before events are filtered
+                connection.on('message', (message: any, direction: string) => {
+                    if (direction !== 'received') {
+                        return;
+                    }
                     try {
-                        const message = JSON.parse(data);
-
-                        // Handle responses to commands
-                        if (message.id !== undefined) {
-                            const callback = pendingCallbacks.get(message.id);
-                            if (callback) {
-                                pendingCallbacks.delete(message.id);
-                                if (message.error) {
-                                    callback.reject(new Error(message.error.message));
-                                } else {
-                                    callback.resolve(message.result);
-                                }
-                            }
-                        }
-
                         // Handle execution context lifecycle events
                         if (message.method === 'Runtime.executionContextCreated') {
                             const context = message.params.context;
@@ -1288,6 +2096,7 @@ export class CDPManager {
                                     this.waitingForFreshContext = false;
                                     this.currentContextId = newContextId;
                                     this.sessionStartTime = new Date();
+                                    this.logWriter.setSegment(1);
 
                                     const now = new Date();
                                     const localTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${Math.floor(now.getMilliseconds() / 100)}`;
@@ -1310,6 +2119,7 @@ export class CDPManager {
                                 // This is a fresh context created after we connected
                                 this.currentContextId = newContextId;
                                 this.sessionStartTime = new Date();
+                                this.logWriter.setSegment(1);
 
                                 const now = new Date();
                                 const localTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${Math.floor(now.getMilliseconds() / 100)}`;
@@ -1327,23 +2137,7 @@ export class CDPManager {
                                 console.log(`   🚀 Fresh context detected: ${newContextId} - Starting capture`);
                             } else if (this.currentContextId !== null && this.currentContextId !== newContextId && !this.initialContextsSeen.has(newContextId)) {
                                 // Subsequent context change (reload/refresh)
-                                this.contextCount++;
-                                const elapsed = ((Date.now() - this.sessionStartTime.getTime()) / 1000).toFixed(1);
-
-                                // Write prominent reload marker to log
-                                const now = new Date();
-                                const localTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${Math.floor(now.getMilliseconds() / 100)}`;
-                                this.logWriter.write({
-                                    type: 'lifecycle',
-                                    message: `\n${'═'.repeat(80)}\n` +
-                                            `║ 🔄 RELOAD/REFRESH DETECTED (#${this.contextCount})\n` +
-                                            `║ Previous Context ID: ${this.currentContextId}\n` +
-                                            `║ New Context ID: ${newContextId} (${contextName})\n` +
-                                            `║ Session Time: ${elapsed}s\n` +
-                                            `║ Local Time: ${localTime}\n` +
-                                            `${'═'.repeat(80)}\n`,
-                                    timestamp: Date.now()
-                                });
+                                this.writeReloadBanner(this.currentContextId, newContextId, contextName);
 
                                 console.log(`   🔄 Context reload detected: ${this.currentContextId} → ${newContextId}`);
 
@@ -1372,44 +2166,6 @@ export class CDPManager {
                             this.currentContextId = null;
                         }
 
-                        // Handle console events WITH context filtering
-                        if (message.method === 'Runtime.consoleAPICalled') {
-                            const contextId = message.params.executionContextId;
-
-                            // If still waiting for fresh context, ignore
-                            if (this.waitingForFreshContext) {
-                                console.log(`   ⏭️ Ignoring message (waiting for fresh context): context=${contextId}`);
-                                return;
-                            }
-
-                            // If message is from initial context that we determined was stale, ignore it
-                            if (this.initialContextsSeen.has(contextId)) {
-                                console.log(`   ⏭️ Ignoring stale context message: context=${contextId}`);
-                                return;
-                            }
-
-                            // ONLY capture if from current context
-                            if (contextId !== undefined && contextId === this.currentContextId) {
-                                // Matching context
-                                this.captureConsoleEvent(message.method, message.params);
-                            } else if (contextId !== undefined && contextId !== this.currentContextId) {
-                                console.log(`   🚫 Ignoring message from context ${contextId} (current: ${this.currentContextId})`);
-                            } else {
-                                // No context ID - this shouldn't happen but log it
-                                console.log(`   ⚠️ Console event without executionContextId - ignoring`);
-                            }
-                        } else if (message.method === 'Runtime.exceptionThrown') {
-                            // Check context for exceptions too
-                            if (this.waitingForFreshContext) {
-                                return; // Ignore exceptions from pre-existing contexts
-                            }
-
-                            const contextId = message.params.exceptionDetails?.executionContextId;
-                            if (contextId !== undefined && contextId === this.currentContextId) {
-                                this.captureConsoleEvent(message.method, message.params);
-                            }
-                        }
-
                         // Track page lifecycle events for additional context
                         if (message.method === 'Page.loadEventFired') {
                             this.logWriter.write({
@@ -1419,8 +2175,13 @@ export class CDPManager {
                             });
                         }
 
+                        if (message.method === 'Page.frameNavigated') {
+                            this.issueHandler?.handleFrameNavigated(message.params);
+                        }
+
                         if (message.method === 'Page.frameNavigated' && message.params.frame.parentId === undefined) {
                             // Main frame navigation
+                            this.consoleHandler.resetGroups();
                             this.logWriter.write({
                                 type: 'lifecycle',
                                 message: `🧭 Main frame navigated to: ${message.params.frame.url}`,
@@ -1429,155 +2190,34 @@ export class CDPManager {
                         }
 
                     } catch (e) {
-                        console.log('   Error parsing CDP message:', e);
+                        console.log('   Error handling CDP message:', e);
                     }
                 });
 
-                // Wait for WebSocket to open
-                console.log('   🔌 Opening WebSocket connection...');
-                await new Promise((resolve, reject) => {
-                    ws.once('open', () => {
-                        console.log('   ✅ WebSocket connected');
-                        resolve(undefined);
-                    });
-                    ws.once('error', reject);
-                    setTimeout(() => reject(new Error('WebSocket connection timeout')), 5000);
-                });
-
-                console.log('   ✅ WebSocket connected to CEF');
-
                 // LogWriter should already be initialized at the start of startCEFMode
                 if (!this.logWriter) {
                     console.log('   ⚠️ LogWriter not initialized! This should not happen.');
                     return false;
                 }
 
-                // We don't need to register specific handlers anymore
-                // The universal capture in the WebSocket message handler will catch everything
-                // Universal console capture enabled - all events will be captured silently
-
-                // Optional: You can still add specific handlers here if needed for special processing
-                // But the universal capture ensures we never miss anything
-
-                // Skip the old handler registration - moving directly to enabling domains
-                /* Commented out - using universal capture instead
-                this.client.on('Runtime.consoleAPICalled', async (event: any) => {
-                    console.log('   📝 [Console API Called]', event.type);
-                    const args = event.args || [];
-
-                    // Process each argument to extract its value
-                    const processedArgs = await Promise.all(args.map(async (arg: any) => {
-                        // Handle primitive values
-                        if (arg.value !== undefined) {
-                            return String(arg.value);
-                        }
-
-                        // Handle objects and arrays - try to get full value
-                        if (arg.type === 'object' && arg.objectId) {
-                            try {
-                                // Try to get the full object properties
-                                const properties = await this.client.send('Runtime.getProperties', {
-                                    objectId: arg.objectId,
-                                    ownProperties: true,
-                                    generatePreview: true
-                                });
-
-                                if (properties && properties.result) {
-                                    // Build a JSON-like representation
-                                    const isArray = arg.subtype === 'array';
-                                    const items = properties.result
-                                        .filter((prop: any) => prop.name !== 'length' || !isArray)
-                                        .map((prop: any) => {
-                                            const value = prop.value ?
-                                                (prop.value.value !== undefined ? JSON.stringify(prop.value.value) : prop.value.description) :
-                                                'undefined';
-                                            return isArray ? value : `${prop.name}: ${value}`;
-                                        });
-
-                                    if (isArray) {
-                                        return `[${items.join(', ')}]`;
-                                    } else {
-                                        const className = arg.className || 'Object';
-                                        return `${className} {${items.join(', ')}}`;
-                                    }
-                                }
-                            } catch (e) {
-                                console.log('   Could not fetch object properties:', e);
-                            }
-                        }
-
-                        // Fallback to preview-based serialization
-                        if (arg.type === 'object') {
-                            let result = arg.className || arg.subtype || 'Object';
-
-                            if (arg.preview && arg.preview.properties) {
-                                const props = arg.preview.properties.map((prop: any) => {
-                                    const value = prop.value !== undefined ? prop.value : prop.type;
-                                    return `${prop.name}: ${value}`;
-                                }).join(', ');
-                                result += ` {${props}}`;
-                                if (arg.preview.overflow) {
-                                    result += ', ...';
-                                }
-                            } else if (arg.description && arg.description !== 'Object') {
-                                result = arg.description;
-                            } else if (arg.preview && arg.preview.description) {
-                                result = arg.preview.description;
-                            }
-
-                            return result;
-                        }
-
-                        // Handle functions
-                        if (arg.type === 'function') {
-                            return arg.description || 'function()';
-                        }
-
-                        // Handle undefined, null, etc
-                        if (arg.type) {
-                            return arg.type;
-                        }
-
-                        // Fallback to description
-                        return arg.description || 'undefined';
-                    }));
-
-                    const message = processedArgs.join(' ');
-                    console.log('   📝 Message:', message.substring(0, 200));
-
-                    this.logWriter.write({
-                        type: 'console',
-                        method: event.type,
-                        message: message,
-                        timestamp: Date.now()
-                    });
-                });
-                handlerCount++;
-
-                // Runtime.exceptionThrown - captures JavaScript errors
-                this.client.on('Runtime.exceptionThrown', (event: any) => {
-                    const details = event.exceptionDetails;
-                    this.logWriter.write({
-                        type: 'error',
-                        message: details.text || details.exception?.description || 'JavaScript Error',
-                        stack: details.stackTrace,
-                        timestamp: Date.now()
-                    });
-                });
-                handlerCount++;
-
-
-                console.log(`   ✅ Registered ${handlerCount} event handlers`);
-                console.log('   Event handlers:', Object.keys(this.client._eventHandlers));
-                */
-
                 // NOW enable the CDP domains
                 console.log('   Enabling CDP domains...');
 
-                // Enable only necessary domains to prevent duplicates
-                await this.client.send('Runtime.enable');  // For console events and execution contexts
-                await this.client.send('Page.enable');      // For page lifecycle events (load, navigation)
-                // DON'T enable Console, Log, Network - they cause duplicate console messages!
+                // Same handlers as CDP mode - duplicates are dropped by acceptCEFEvent
+                this.attachConsoleListeners(session);
+                this.attachNetworkListeners(session);
+
+                await session.send('Runtime.enable');  // For console events and execution contexts
+                await session.send('Page.enable');      // For page lifecycle events (load, navigation)
+                await session.send('Log.enable');
+                await session.send('Network.enable').catch(() => {});  // Not every CEF version exposes Network
+                // Console.enable stays off - it only repeats Runtime.consoleAPICalled as Console.messageAdded
+                await this.enableSourceMaps(session);
+                await this.enableIssues(session);
+                await this.enablePerformance(session, true);
+                await this.enableInterception(session);
+                await this.enableEmulation(session);
+                this.attachDialogListeners(session);
 
                 console.log('   ✅ CDP domains enabled - handlers ready');
                 console.log('   ✅ Connected to CEF console via CDP - capturing all output');
@@ -1587,8 +2227,8 @@ export class CDPManager {
                 // console.log('   🔄 Reloading extension to capture from start...');
                 // await this.client.send('Page.reload', { ignoreCache: false });
 
-                // Store WebSocket for cleanup
-                this.activeWebSocket = ws;
+                // Store the connection for cleanup
+                this.activeConnection = connection;
 
                 // Monitor for disconnection and auto-reconnect
                 const setupReconnect = () => {
@@ -1610,7 +2250,7 @@ export class CDPManager {
                         }
 
                         // Don't reconnect if we've been stopped
-                        if (this.activeWebSocket === null) {
+                        if (this.activeConnection === null) {
                             return;
                         }
 
@@ -1676,9 +2316,10 @@ export class CDPManager {
                 };
 
                 // Monitor WebSocket close
-                ws.on('close', () => {
+                connection.on('close', () => {
+                    this.emulation?.detach(session);
                     // Don't reconnect if we're shutting down or this isn't our active socket
-                    if (this.activeWebSocket === null || this.activeWebSocket !== ws) {
+                    if (this.activeConnection === null || this.activeConnection !== connection) {
                         console.log('   WebSocket closed (shutdown or replaced)');
                         return;
                     }
@@ -1703,27 +2344,21 @@ export class CDPManager {
                         });
                     }
 
-                    // Clean up current connection
-                    if (this.client) {
-                        this.client.removeAllListeners?.();
-                        this.client = null;
-                    }
+                    // Clean up current connection - its subscriptions went with it
+                    this.client = null;
 
                     setupReconnect();
                 });
 
-                ws.on('error', (error: any) => {
+                connection.on('error', (error: any) => {
                     // Don't reconnect if we're shutting down or this isn't our active socket
-                    if (this.activeWebSocket === null || this.activeWebSocket !== ws) {
+                    if (this.activeConnection === null || this.activeConnection !== connection) {
                         return;
                     }
                     console.log('\n⚠️  CEF WebSocket error:', error.message);
 
-                    // Clean up current connection
-                    if (this.client) {
-                        this.client.removeAllListeners?.();
-                        this.client = null;
-                    }
+                    // Clean up current connection - its subscriptions went with it
+                    this.client = null;
 
                     setupReconnect();
                 });
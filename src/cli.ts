@@ -2,10 +2,12 @@
 
 import { CDPManager } from './cdpManager';
 import { ConfigHandler, DevMirrorConfig } from './configHandler';
+import { startControlServer } from './controlServer';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as http from 'http';
 import * as net from 'net';
+import * as crypto from 'crypto';
 
 async function waitForPort(port: number, maxAttempts = 60): Promise<boolean> {
     for (let i = 0; i < maxAttempts; i++) {
@@ -105,7 +107,7 @@ async function main() {
     // Handle wait mode
     if (waitMode) {
         console.log('⏳ Wait mode: Waiting for debug port to be available...');
-        const port = config.cefPort || 9222;
+        const port = config.cefPort || config.attach?.port || 9222;
         await waitForPort(port);
         console.log('✅ Port detected! Starting capture...');
     }
@@ -125,6 +127,12 @@ async function main() {
 
     if (config.mode === 'cef') {
         console.log('🎨 Running in Adobe CEF mode');
+    } else if (config.mode === 'attach') {
+        console.log('🔗 Running in attach mode (existing browser)');
+    } else if (config.mode === 'electron') {
+        console.log('⚛️ Running in Electron mode');
+    } else if (config.mode === 'node') {
+        console.log('🟩 Running in Node.js inspector mode');
     } else {
         console.log('🌐 Running in Chrome CDP mode');
     }
@@ -137,6 +145,17 @@ async function main() {
         fs.mkdirSync(config.outputDir, { recursive: true });
     }
 
+    // Lets the extension switch emulation profiles while capturing
+    let controlPort: number | undefined;
+    const controlToken = crypto.randomBytes(32).toString('hex');
+    try {
+        const controlServer = await startControlServer(manager, controlToken);
+        controlServer.unref();
+        controlPort = (controlServer.address() as net.AddressInfo).port;
+    } catch (error) {
+        console.log('⚠️ Control server unavailable - emulation profiles can only be set in the config');
+    }
+
     // Send activation message to VS Code extension via HTTP and file-based IPC
     const activateVSCode = () => {
         const activationData = {
@@ -144,6 +163,8 @@ async function main() {
             pid: process.pid,
             url: config.url,
             logDir: path.resolve(config.outputDir),
+            controlPort,
+            controlToken,
             timestamp: Date.now()
         };
 
@@ -201,14 +222,12 @@ async function main() {
 
     process.on('uncaughtException', async (error) => {
         console.error('❌ Uncaught exception:', error);
-        await manager.stop();
-        process.exit(1);
+        await manager.stop(1, 'crash');
     });
 
     process.on('unhandledRejection', async (reason) => {
         console.error('❌ Unhandled rejection:', reason);
-        await manager.stop();
-        process.exit(1);
+        await manager.stop(1, 'crash');
     });
 
     console.log('\n');
@@ -1,15 +1,123 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { EmulationProfile } from './emulationProfiles';
+import { SinkConfig } from './sinks/LogSink';
 
 export interface DevMirrorConfig {
     url?: string;  // Optional - can be auto-detected
     outputDir: string;
     chromePath?: string;
-    mode: 'cdp' | 'cef';
+    mode: 'cdp' | 'cef' | 'attach' | 'node' | 'electron';
     cefPort?: number;
     autoDetectPort?: boolean;  // Auto-detect running dev server
     autoOpenBrowser?: boolean;  // Auto-open browser in CEF mode
+    attach?: {
+        browserURL?: string;  // Remote debugging endpoint, e.g. http://127.0.0.1:9222
+        port?: number;  // Shorthand for browserURL on 127.0.0.1
+        wsEndpoint?: string;  // Browser WebSocket endpoint (ws://.../devtools/browser/<id>)
+        userDataDir?: string;  // Profile whose DevToolsActivePort file names the endpoint (default: Chrome/Edge profiles)
+        targets?: string[];  // URL globs or /regex/ selecting tabs to capture (default: url + "*", or every tab)
+        followNewTabs?: boolean;  // Also capture matching tabs opened later (default: true)
+    };
     captureDeprecationWarnings?: boolean;  // Capture browser deprecation warnings (Shadow DOM, etc.)
+    sourceMaps?: boolean;  // Resolve stack frames through source maps (default: true)
+    captureIssues?: boolean;  // Capture DevTools Issues tab entries - CORS, CSP, cookies, mixed content (default: true)
+    objectExpansion?: {
+        enabled: boolean;
+        maxDepth?: number;  // Nesting levels to expand (default: 5)
+        maxBreadth?: number;  // Properties per object before truncating (default: 100)
+        maxBytes?: number;  // Approximate size budget per console call (default: 65536)
+        invokeGetters?: boolean;  // Evaluate getters instead of showing [Getter] (default: false)
+    };
+    har?: {
+        enabled: boolean;
+        includeBodies?: boolean;  // Capture response bodies (default: true)
+        maxBodySize?: number;  // Skip bodies larger than this many bytes (default: 1048576)
+        maxTotalBodySize?: number;  // Stop keeping bodies past this many bytes in total (default: 52428800)
+        maxEntries?: number;  // Keep only the newest entries (default: 10000)
+    };
+    jsonl?: {
+        enabled: boolean;  // Also write every entry as NDJSON to <session>.jsonl, with a current.jsonl pointer
+        includeArgs?: boolean;  // Include raw console arguments (default: true)
+    };
+    sinks?: SinkConfig[];  // More destinations for entries - stdout, http, socket - each with its own level/filter
+    rotation?: {
+        maxSize?: number;  // Continue in the next part once a part reaches this many bytes, 0 for no limit (default: 52428800)
+        interval?: number;  // Also start a new part every N minutes (default: off)
+        onReload?: boolean;  // Start a new part on every page reload (default: false)
+    };
+    retention?: {
+        maxSessions?: number;  // Keep the newest N sessions (default: no limit)
+        maxAgeDays?: number;  // Delete sessions older than this (default: no limit)
+        maxTotalBytes?: number;  // Delete the oldest sessions while the directory is larger (default: no limit)
+        compress?: boolean;  // Gzip rotated and finished sessions (default: true)
+    };
+    networkMessages?: {
+        enabled: boolean;  // Log WebSocket frames and EventSource messages
+        include?: string[];  // URL globs or /regex/ - only matching connections are logged
+        exclude?: string[];  // URL globs or /regex/ - never logged (wins over include)
+        maxPayloadLength?: number;  // Truncate payloads longer than this (default: 2000)
+        prettyPrintJson?: boolean;  // Indent JSON payloads like console objects (default: true)
+    };
+    intercept?: {
+        url: string;  // URL glob or /regex/ of the requests to intercept
+        method?: string;  // Only requests with this HTTP method (default: any)
+        status?: number;  // Respond with this status code instead of the server (default: 200 with file/body)
+        file?: string;  // Respond with this file, relative to the project root
+        body?: string;  // Respond with this text
+        headers?: Record<string, string>;  // Extra response headers
+        delay?: number;  // ms to hold the request before it is answered or continues
+        abort?: boolean | string;  // Fail the request - true or an error reason like "ConnectionRefused", "TimedOut"
+    }[];
+    dialogs?: {
+        policy?: 'accept' | 'dismiss' | 'manual';  // Answer alert/confirm/prompt/beforeunload dialogs (default: manual, accept when headless or in CI)
+        promptText?: string;  // Text entered into accepted prompt() dialogs (default: the page's default value)
+    };
+    emulation?: {
+        profile?: string;  // Profile to apply from the start, e.g. "Slow 3G", "iPhone 14" (default: none)
+        profiles?: Record<string, EmulationProfile>;  // Custom profiles, added to the built-in ones
+    };
+    performance?: {
+        enabled: boolean;  // Record metrics samples, LCP, layout shifts, long tasks and violations
+        sampleInterval?: number;  // ms between Performance.getMetrics samples, 0 to disable (default: 10000)
+        longTaskThreshold?: number;  // ms before a task is reported as a violation (default: 50)
+        longLayoutThreshold?: number;  // ms before a forced reflow is reported (default: 30)
+        blockedEventThreshold?: number;  // ms an input handler may block before it is reported (default: 100)
+        handlerThreshold?: number;  // ms a setTimeout/event handler may take before it is reported (default: 150)
+        layoutShiftThreshold?: number;  // Minimum layout shift score to log (default: 0.01)
+    };
+    screenshots?: {
+        enabled: boolean;  // Save a screenshot next to the log when an uncaught error fires
+        minInterval?: number;  // ms between screenshots (default: 5000)
+        maxPerSession?: number;  // Stop after this many screenshots (default: 50)
+        format?: 'png' | 'jpeg';  // Image format (default: png)
+        quality?: number;  // jpeg quality 0-100 (default: 80)
+    };
+    tabs?: {
+        enabled: boolean;  // Capture popups and new tabs too, labeling every tab's entries with an id and title
+        origins?: string[];  // Only capture tabs on these origins, e.g. http://localhost:3000 (default: all tabs)
+    };
+    electron?: {
+        executablePath?: string;  // Electron binary (default: the project's electron package)
+        appPath?: string;  // App directory or main script passed to Electron (default: ".")
+        args?: string[];  // Extra arguments for the app
+        remoteDebuggingPort?: number;  // Renderer debugging port (default: 9223)
+        inspectPort?: number;  // Main process inspector port (default: 9230)
+        windows?: string[];  // URL globs or /regex/ selecting windows to capture (default: all but DevTools)
+    };
+    node?: {
+        enabled?: boolean;  // Also capture a Node.js inspector in cdp/attach mode (always on in node mode)
+        host?: string;  // Inspector host (default: 127.0.0.1)
+        port?: number;  // node --inspect port (default: 9229)
+        wsEndpoint?: string;  // Inspector WebSocket URL, skips /json/list discovery until the process restarts
+    };
+    headless?: boolean;  // Launch Chrome without a window or DevTools (cdp mode)
+    ci?: {
+        duration?: number;  // Stop after this many seconds
+        networkIdle?: number;  // Stop this many seconds after the page's network goes idle
+        maxErrors?: number;  // Exit with code 1 when more errors than this were captured (default: 0)
+        summaryFile?: string;  // JSON run summary (default: <outputDir>/devmirror-summary.json)
+    };
     throttle?: {
         maxPerSecond: number;
         suppressAfter: number;
@@ -0,0 +1,55 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { CDPManager } from './cdpManager';
+
+export const CONTROL_TOKEN_HEADER = 'x-devmirror-token';
+
+/**
+ * Local HTTP endpoint the VS Code extension uses to steer a running capture.
+ * Listens on a free port on 127.0.0.1 - the port and token are sent along with the activation.
+ *
+ * Every request must carry the token in the X-DevMirror-Token header. Requests with an
+ * Origin header come from a web page (the captured one included) and are refused.
+ *
+ *   GET  /emulation                       → { profiles: [{ name, description }], active }
+ *   POST /emulation { "profile": name }   → switch every captured page to the profile
+ */
+export function startControlServer(manager: CDPManager, token: string): Promise<http.Server> {
+    const expected = Buffer.from(token);
+    const server = http.createServer((req, res) => {
+        const reply = (status: number, body: any) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+
+        const given = Buffer.from(String(req.headers[CONTROL_TOKEN_HEADER] || ''));
+        if (req.headers.origin !== undefined || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+            reply(403, { error: 'Forbidden' });
+            return;
+        }
+
+        if (req.method === 'GET' && req.url === '/emulation') {
+            reply(200, manager.getEmulationProfiles());
+        } else if (req.method === 'POST' && req.url === '/emulation') {
+            let body = '';
+            req.on('data', chunk => body += chunk.toString());
+            req.on('end', async () => {
+                try {
+                    const { profile } = JSON.parse(body);
+                    await manager.setEmulationProfile(profile);
+                    reply(200, { active: profile });
+                } catch (error: any) {
+                    reply(400, { error: error.message });
+                }
+            });
+        } else {
+            res.writeHead(404);
+            res.end();
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve(server));
+    });
+}
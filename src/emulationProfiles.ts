@@ -0,0 +1,90 @@
+/**
+ * A named set of emulation settings. Anything left out is reset to the browser's
+ * own behavior when the profile is applied, so switching profiles never stacks.
+ */
+export interface EmulationProfile {
+    network?: {
+        offline?: boolean;
+        latency: number;  // ms added to every request
+        downloadThroughput: number;  // bytes/s, -1 for no limit
+        uploadThroughput: number;  // bytes/s, -1 for no limit
+    };
+    cpuThrottling?: number;  // Slowdown factor, e.g. 4 for a 4x slower CPU
+    device?: {
+        width: number;
+        height: number;
+        deviceScaleFactor: number;
+        mobile: boolean;
+        touch?: boolean;  // Default: same as mobile
+    };
+    userAgent?: string;
+    timezone?: string;  // IANA id, e.g. "Asia/Tokyo"
+    locale?: string;  // e.g. "de-DE"
+}
+
+const IPHONE_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_UA = 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+const IPAD_UA = 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+// Network presets use the same numbers as the DevTools throttling menu
+export const BUILT_IN_PROFILES: Record<string, EmulationProfile> = {
+    'No emulation': {},
+    'Slow 3G': {
+        network: { latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 }
+    },
+    'Fast 3G': {
+        network: { latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 }
+    },
+    'Offline': {
+        network: { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 }
+    },
+    '4x CPU slowdown': { cpuThrottling: 4 },
+    '6x CPU slowdown': { cpuThrottling: 6 },
+    'iPhone 14': {
+        device: { width: 390, height: 844, deviceScaleFactor: 3, mobile: true },
+        userAgent: IPHONE_UA
+    },
+    'Pixel 7': {
+        device: { width: 412, height: 915, deviceScaleFactor: 2.625, mobile: true },
+        userAgent: ANDROID_UA
+    },
+    'iPad': {
+        device: { width: 820, height: 1180, deviceScaleFactor: 2, mobile: true },
+        userAgent: IPAD_UA
+    }
+};
+
+/**
+ * Built-in profiles plus the ones from the config - a config profile with a built-in's name replaces it
+ */
+export function resolveProfiles(custom?: Record<string, EmulationProfile>): Record<string, EmulationProfile> {
+    return { ...BUILT_IN_PROFILES, ...custom };
+}
+
+/**
+ * One-line summary for the log and the quick pick, e.g. "2000 ms, 400 kbit/s · 390×844 @3x"
+ */
+export function describeProfile(profile: EmulationProfile): string {
+    const parts: string[] = [];
+    if (profile.network?.offline) {
+        parts.push('offline');
+    } else if (profile.network) {
+        const kbits = profile.network.downloadThroughput < 0
+            ? 'no limit'
+            : `${Math.round(profile.network.downloadThroughput * 8 / 1000)} kbit/s`;
+        parts.push(`${profile.network.latency} ms, ${kbits}`);
+    }
+    if (profile.cpuThrottling && profile.cpuThrottling > 1) {
+        parts.push(`${profile.cpuThrottling}x CPU`);
+    }
+    if (profile.device) {
+        parts.push(`${profile.device.width}×${profile.device.height} @${profile.device.deviceScaleFactor}x`);
+    }
+    if (profile.timezone) {
+        parts.push(profile.timezone);
+    }
+    if (profile.locale) {
+        parts.push(profile.locale);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'no emulation';
+}
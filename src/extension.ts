@@ -9,6 +9,8 @@ import { PuppeteerChecker } from './puppeteerChecker';
 import { PackageJsonTreeProvider } from './packageJsonTreeProvider';
 import { WizardViewProvider } from './wizardViewProvider';
 import { BackupManager } from './backupManager';
+import { LogRetention, sessionIdOf } from './logRetention';
+import { CONTROL_TOKEN_HEADER } from './controlServer';
 
 export function activate(context: vscode.ExtensionContext) {
     // Store CLI path using context.extensionUri on activation
@@ -428,6 +430,135 @@ require(cli);
         vscode.commands.executeCommand('workbench.action.openSettings', 'devmirror');
     });
 
+    // Talk to the running CLI's control server
+    const controlRequest = (control: { port: number; token: string }, method: string, requestPath: string, body?: any): Promise<any> => {
+        return new Promise((resolve, reject) => {
+            const data = body ? JSON.stringify(body) : undefined;
+            const req = http.request({
+                hostname: '127.0.0.1',
+                port: control.port,
+                path: requestPath,
+                method,
+                headers: {
+                    [CONTROL_TOKEN_HEADER]: control.token,
+                    ...(data && { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(data) })
+                },
+                timeout: 5000
+            }, (res) => {
+                let response = '';
+                res.on('data', chunk => response += chunk.toString());
+                res.on('end', () => {
+                    try {
+                        const result = JSON.parse(response);
+                        if (res.statusCode === 200) {
+                            resolve(result);
+                        } else {
+                            reject(new Error(result.error || `HTTP ${res.statusCode}`));
+                        }
+                    } catch {
+                        reject(new Error(`HTTP ${res.statusCode}`));
+                    }
+                });
+            });
+            req.on('error', reject);
+            req.on('timeout', () => req.destroy(new Error('DevMirror did not respond')));
+            if (data) {
+                req.write(data);
+            }
+            req.end();
+        });
+    };
+
+    // Switch network/CPU/device emulation of the running capture
+    const selectEmulationCommand = vscode.commands.registerCommand('devmirror.selectEmulationProfile', async () => {
+        const control = statusMonitor.getControl();
+        if (!control) {
+            vscode.window.showWarningMessage('DevMirror is not capturing - start a capture first');
+            return;
+        }
+
+        try {
+            const { profiles, active } = await controlRequest(control, 'GET', '/emulation');
+            const picked = await vscode.window.showQuickPick(
+                profiles.map((profile: { name: string; description: string }) => ({
+                    label: profile.name,
+                    description: profile.name === active ? `${profile.description} (active)` : profile.description
+                })),
+                { placeHolder: 'Emulation profile for the captured pages' }
+            ) as vscode.QuickPickItem | undefined;
+            if (!picked) {
+                return;
+            }
+
+            await controlRequest(control, 'POST', '/emulation', { profile: picked.label });
+            vscode.window.setStatusBarMessage(`DevMirror: emulating ${picked.label}`, 3000);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Cannot switch emulation profile: ${error.message}`);
+        }
+    });
+
+    // Log directory and retention policy of the capturing (or first) workspace
+    const resolveLogDir = async (): Promise<{ logDir: string; retention: any } | null> => {
+        const rootPath = statusMonitor.getCurrentWorkspacePath() || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!rootPath) {
+            return null;
+        }
+
+        const configPath = path.join(rootPath, 'devmirror.config.json');
+        if (!fs.existsSync(configPath)) {
+            return null;
+        }
+        const config = await ConfigHandler.load(configPath);
+        return { logDir: path.resolve(rootPath, config.outputDir || './devmirror-logs'), retention: config.retention };
+    };
+
+    // Session id of the log being captured, if any
+    const activeSessionId = (): string | null => {
+        const logPath = statusMonitor.getCurrentLogPath();
+        if (!logPath || !fs.existsSync(logPath)) {
+            return null;
+        }
+        return sessionIdOf(fs.realpathSync(logPath));
+    };
+
+    // Compress finished sessions and delete the ones past the retention limits
+    const cleanupLogsCommand = vscode.commands.registerCommand('devmirror.cleanupLogs', async () => {
+        const target = await resolveLogDir();
+        if (!target) {
+            vscode.window.showWarningMessage('No devmirror.config.json found - run "DevMirror: Setup Project" first');
+            return;
+        }
+
+        try {
+            const result = await new LogRetention(target.logDir, target.retention).cleanup(activeSessionId());
+            const freed = (result.freedBytes / 1024 / 1024).toFixed(1);
+            vscode.window.showInformationMessage(
+                `DevMirror: removed ${result.removed} session${result.removed === 1 ? '' : 's'} (${freed} MB), compressed ${result.compressed} file${result.compressed === 1 ? '' : 's'}`
+            );
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Log cleanup failed: ${error.message}`);
+        }
+    });
+
+    // Toggle the pin of the open log file (or the one being captured) - pinned sessions survive cleanup
+    const pinLogCommand = vscode.commands.registerCommand('devmirror.pinLog', async () => {
+        const editorPath = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const editorSession = editorPath && fs.existsSync(editorPath) ? sessionIdOf(fs.realpathSync(editorPath)) : null;
+        const sessionId = editorSession || activeSessionId();
+        const logDir = editorSession ? path.dirname(fs.realpathSync(editorPath!)) : (await resolveLogDir())?.logDir;
+        if (!sessionId || !logDir) {
+            vscode.window.showWarningMessage('Open a DevMirror log or start a capture to pin its session');
+            return;
+        }
+
+        const retention = new LogRetention(logDir);
+        const pinned = !(await retention.isPinned(sessionId));
+        await retention.setPinned(sessionId, pinned);
+        vscode.window.showInformationMessage(pinned
+            ? `DevMirror: pinned session ${sessionId} - log cleanup will keep it`
+            : `DevMirror: unpinned session ${sessionId}`);
+    });
+
     // Register tree view for monorepo support
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     if (workspaceFolder) {
@@ -486,6 +617,9 @@ require(cli);
     context.subscriptions.push(stopCommand);
     context.subscriptions.push(showLogsCommand);
     context.subscriptions.push(openSettingsCommand);
+    context.subscriptions.push(selectEmulationCommand);
+    context.subscriptions.push(cleanupLogsCommand);
+    context.subscriptions.push(pinLogCommand);
     context.subscriptions.push(outputChannel);
     context.subscriptions.push(statusMonitor);
     context.subscriptions.push(new vscode.Disposable(() => {
@@ -1,14 +1,26 @@
-import { LogWriter } from '../logWriter';
+import { ConsoleStyle, GroupInfo, LogEntry, LogWriter, StackFrame, TargetInfo } from '../logWriter';
 import { DevMirrorConfig } from '../configHandler';
+import { SourceMapResolver } from '../sourceMapResolver';
+import { CDPSender, ObjectExpander } from '../objectExpander';
+import { formatJsonText, truncateText } from './formatting';
+
+// Runs in the page with a DOM node as `this`
+const OUTER_HTML_FN = 'function() { return this.outerHTML || this.nodeValue || String(this); }';
 
 export class ConsoleEventHandler {
     private logWriter: LogWriter;
     private config: DevMirrorConfig;
+    private sourceMaps?: SourceMapResolver;
+    private expansionQueue: Promise<void> = Promise.resolve();  // Keeps every entry in order while objects expand
+    private queuedEntries = 0;
+    private groupStacks = new Map<string, number[]>();  // Open console.group() ids per target
+    private groupCounter = 0;
     private debugLog: (category: string, message: string, data?: any) => void;
 
-    constructor(logWriter: LogWriter, config: DevMirrorConfig) {
+    constructor(logWriter: LogWriter, config: DevMirrorConfig, sourceMaps?: SourceMapResolver) {
         this.logWriter = logWriter;
         this.config = config;
+        this.sourceMaps = sourceMaps;
 
         // Setup debug logging
         this.debugLog = (category: string, message: string, data?: any) => {
@@ -51,7 +63,7 @@ export class ConsoleEventHandler {
     /**
      * Process console events from Runtime.consoleAPICalled
      */
-    handleConsoleAPI(params: any): void {
+    handleConsoleAPI(params: any, target?: TargetInfo, session?: CDPSender): void {
         if (!this.logWriter) {
             console.log('   ⚠️ LogWriter not ready for console event');
             return;
@@ -60,53 +72,197 @@ export class ConsoleEventHandler {
         // Debug logging for raw console API data
         this.debugLog('console', 'Raw Runtime.consoleAPICalled data', params);
 
+        const timestamp = Date.now();
+
+        // Deep expansion and dirxml markup are async - while anything is queued, every console
+        // entry goes through the queue so they stay in call order
+        const expansion = this.config.objectExpansion;
+        const needsSession = !!session && (!!expansion?.enabled || this.hasNodeArguments(params, 'dirxml'));
+        if (needsSession || this.queuedEntries > 0) {
+            this.queuedEntries++;
+            this.expansionQueue = this.expansionQueue.then(async () => {
+                try {
+                    const args = needsSession ? await this.prepareArguments(params, session!) : params.args;
+                    this.writeConsoleEntry({ ...params, args }, timestamp, target);
+                } finally {
+                    this.queuedEntries--;
+                }
+            });
+            return;
+        }
+
+        this.writeConsoleEntry(params, timestamp, target);
+    }
+
+    /**
+     * Exceptions and browser log entries wait behind console entries still being expanded,
+     * so the log keeps execution order
+     */
+    private writeInOrder(entry: LogEntry): void {
+        if (this.queuedEntries === 0) {
+            this.logWriter.write(entry);
+            return;
+        }
+
+        this.queuedEntries++;
+        this.expansionQueue = this.expansionQueue.then(() => {
+            try {
+                this.logWriter.write(entry);
+            } finally {
+                this.queuedEntries--;
+            }
+        });
+    }
+
+    /**
+     * Forget the open console.group() nesting of a target (it navigated or reloaded) -
+     * other tabs and workers keep theirs
+     */
+    resetGroups(target?: TargetInfo): void {
+        this.groupStacks.delete(this.groupKey(target));
+    }
+
+    /**
+     * Two tabs or iframes can share a URL - each needs its own group nesting
+     */
+    private groupKey(target?: TargetInfo): string {
+        return target ? `${target.type}:${target.targetId || target.id || target.url || ''}` : 'page';
+    }
+
+    private async prepareArguments(params: any, session: CDPSender): Promise<any[]> {
+        let args = params.args || [];
+        const expansion = this.config.objectExpansion;
+
+        try {
+            if (expansion?.enabled) {
+                args = await new ObjectExpander(session, expansion).expandArguments(args);
+            }
+
+            // console.dirxml() shows DOM nodes as markup
+            if (params.type === 'dirxml') {
+                args = await Promise.all(args.map(async (arg: any) => {
+                    if (arg.subtype !== 'node' || !arg.objectId) {
+                        return arg;
+                    }
+                    const response = await session.send('Runtime.callFunctionOn', {
+                        objectId: arg.objectId,
+                        functionDeclaration: OUTER_HTML_FN,
+                        returnByValue: true,
+                        silent: true
+                    });
+                    const markup = response?.result?.value;
+                    return typeof markup === 'string' ? { ...arg, markup: truncateText(markup, 10000) } : arg;
+                }));
+            }
+        } catch {
+            // Target went away - format whatever we have
+        }
+
+        return args;
+    }
+
+    private hasNodeArguments(params: any, type: string): boolean {
+        return params.type === type && (params.args || []).some((arg: any) => arg.subtype === 'node' && arg.objectId);
+    }
+
+    private writeConsoleEntry(params: any, timestamp: number, target?: TargetInfo): void {
         try {
             const args = params.args || [];
             const type = params.type || 'log';
+            const groupKey = this.groupKey(target);
+            const groupStack = this.groupStacks.get(groupKey) || [];
 
+            // console.groupEnd() closes the innermost group and prints nothing
+            if (type === 'endGroup') {
+                groupStack.pop();
+                return;
+            }
 
             // Extract source location if available
             let source = '';
             if (params.stackTrace?.callFrames?.[0]) {
-                const frame = params.stackTrace.callFrames[0];
-                const fileName = frame.url ? frame.url.split('/').pop() : '';
+                const frame = this.resolveFrames(params.stackTrace.callFrames)[0];
+                const fileName = this.frameFileName(frame, '');
                 if (fileName && frame.lineNumber) {
                     source = `[${fileName}:${frame.lineNumber}] `;
                 }
             }
 
-            // Special handling for console.table()
+            // Render each console method the way Chrome DevTools shows it
+            const isGroupStart = type === 'startGroup' || type === 'startGroupCollapsed';
+            const styles: ConsoleStyle[] = [];
+            let lead = '';  // Fixed text before the formatted arguments, so style offsets can be shifted
             let message = '';
             if (type === 'table' && args.length > 0) {
                 message = 'console.table() output\n' + this.formatTableData(args[0]);
+            } else if (isGroupStart) {
+                lead = `${type === 'startGroupCollapsed' ? '▸' : '▾'} `;
+                message = lead + (this.formatArguments(args, styles) || 'console.group');
+            } else if (type === 'assert') {
+                lead = 'Assertion failed: ';
+                message = lead + (this.formatArguments(args, styles) || 'console.assert');
+            } else if (type === 'trace') {
+                message = this.formatArguments(args, styles) || 'console.trace';
+            } else if (type === 'dir') {
+                message = this.formatDirArgument(args[0]);
+            } else if (type === 'dirxml') {
+                message = args.map((arg: any) => arg.markup || this.formatArguments([arg])).join(' ');
+            } else if (type === 'clear') {
+                message = 'Console was cleared';
+            } else if (type === 'profile' || type === 'profileEnd') {
+                const title = this.formatArguments(args);
+                message = `Profile${title ? ` '${title}'` : ''} ${type === 'profile' ? 'started' : 'finished'}.`;
             } else {
-                message = this.formatArguments(args);
+                // count ("label: 3"), timeEnd/timeLog ("label: 1.23 ms") already arrive in DevTools form
+                message = this.formatArguments(args, styles);
             }
 
-            // Add full stack trace if available - capture for ALL messages to match browser behavior
-            let fullMessage = source + message;
-            if (params.stackTrace?.callFrames?.length > 1) {
-                // Skip first frame as it's already in source
-                const stackTrace = this.formatStackTrace(params.stackTrace, true);
-                if (stackTrace) {
-                    fullMessage += '\n' + stackTrace;
-                }
+            // console.trace() shows the whole stack; everything else skips the frame already in source
+            const callFrames = params.stackTrace?.callFrames || [];
+            let stack: string | undefined;
+            if (type === 'trace' && callFrames.length > 0) {
+                stack = this.formatStackTrace(params.stackTrace, false);
+            } else if (callFrames.length > 1) {
+                stack = this.formatStackTrace(params.stackTrace, true);
             }
 
             // Only write if we have a message
-            if (fullMessage.trim()) {
+            if ((source + message).trim()) {
                 // Map console types to LogWriter types
                 const logType = type === 'log' || type === 'info' || type === 'warn' ? 'console' :
-                               type === 'error' ? 'error' :
+                               type === 'error' || type === 'assert' ? 'error' :
                                type === 'debug' ? 'debug' : 'console';
 
+                // Position in console.group() nesting - group headers carry an id their children point to
+                let group: GroupInfo | undefined;
+                if (groupStack.length > 0 || isGroupStart) {
+                    group = {
+                        depth: groupStack.length,
+                        parentId: groupStack[groupStack.length - 1],
+                        id: isGroupStart ? ++this.groupCounter : undefined,
+                        collapsed: type === 'startGroupCollapsed' ? true : undefined
+                    };
+                }
+
                 this.logWriter.write({
                     type: logType,
                     method: type, // Pass the original console method (log, warn, error, etc.)
                     message: source + message, // Just the core message without stack trace
-                    stack: params.stackTrace?.callFrames?.length > 1 ? this.formatStackTrace(params.stackTrace, true) : undefined,
-                    timestamp: Date.now()
+                    stack: stack,
+                    frames: this.stackFrames(params.stackTrace),
+                    args,
+                    timestamp: timestamp,
+                    target,
+                    group,
+                    styles: styles.length > 0
+                        ? styles.map(style => ({ ...style, offset: style.offset + source.length + lead.length }))
+                        : undefined
                 });
+
+                if (isGroupStart && group?.id !== undefined) {
+                    groupStack.push(group.id);
+                    this.groupStacks.set(groupKey, groupStack);
+                }
             }
         } catch (error) {
             console.log('   Error capturing console event:', error);
@@ -114,9 +270,32 @@ export class ConsoleEventHandler {
     }
 
     /**
-     * Process runtime exceptions
+     * console.dir() shows the object's own properties under its description
+     */
+    private formatDirArgument(arg: any): string {
+        if (!arg) {
+            return 'undefined';
+        }
+
+        let properties: any = null;
+        if (arg.expanded !== undefined && typeof arg.expanded === 'object') {
+            properties = arg.expanded;
+        } else if (arg.preview?.properties) {
+            properties = this.buildObjectFromPreview(arg.preview);
+        }
+
+        if (!properties) {
+            return this.formatArguments([arg]);
+        }
+
+        const header = (arg.description || arg.className || 'Object').split('\n')[0];
+        return `${header} ${JSON.stringify(properties, null, 2)}`;
+    }
+
+    /**
+     * Process runtime exceptions. `screenshot` is the image captured for this error, if any.
      */
-    handleExceptionThrown(details: any): void {
+    handleExceptionThrown(details: any, target?: TargetInfo, screenshot?: string): void {
         if (!this.logWriter) return;
 
         // Debug logging for raw exception data
@@ -137,9 +316,10 @@ export class ConsoleEventHandler {
         // CDP uses 0-based line numbers, but browsers display 1-based, so add 1
         let fileInfo = '';
         if (details.url && details.lineNumber !== undefined) {
-            const fileName = details.url.split('/').pop();
-            const lineNumber = details.lineNumber + 1; // Convert from 0-based to 1-based
-            const columnNumber = (details.columnNumber || 0) + 1; // Columns are also 0-based
+            const location = this.resolveFrames([details])[0];
+            const fileName = this.frameFileName(location, 'unknown');
+            const lineNumber = location.lineNumber + 1; // Convert from 0-based to 1-based
+            const columnNumber = (location.columnNumber || 0) + 1; // Columns are also 0-based
             fileInfo = ` (${fileName}:${lineNumber}:${columnNumber})`;
         } else if (details.scriptId && details.lineNumber !== undefined) {
             const lineNumber = details.lineNumber + 1;
@@ -153,27 +333,30 @@ export class ConsoleEventHandler {
 
         // Add stack trace if available
         if (details.stackTrace?.callFrames?.length > 0) {
-            const frames = details.stackTrace.callFrames
+            const frames = this.resolveFrames(details.stackTrace.callFrames)
                 .slice(0, 5)
                 .map((frame: any) => {
-                    const fileName = frame.url ? frame.url.split('/').pop() : 'unknown';
+                    const fileName = this.frameFileName(frame, 'unknown');
                     return `    at ${frame.functionName || '<anonymous>'} (${fileName}:${frame.lineNumber}:${frame.columnNumber})`;
                 })
                 .join('\n');
             message += '\n' + frames;
         }
 
-        this.logWriter.write({
+        this.writeInOrder({
             type: 'error',
             message: message,
-            timestamp: Date.now()
+            frames: this.stackFrames(details.stackTrace),
+            timestamp: Date.now(),
+            target,
+            screenshot
         });
     }
 
     /**
      * Process Log.entryAdded events
      */
-    handleLogEntry(params: any): void {
+    handleLogEntry(params: any, target?: TargetInfo): void {
         if (!this.logWriter) return;
 
         const entry = params.entry;
@@ -209,8 +392,9 @@ export class ConsoleEventHandler {
         // Extract file and line information if available
         let fileInfo = '';
         if (entry.url && entry.lineNumber !== undefined) {
-            const fileName = entry.url.split('/').pop() || 'unknown';
-            fileInfo = ` (${fileName}:${entry.lineNumber}:${entry.columnNumber || 0})`;
+            const location = this.resolveFrames([entry])[0];
+            const fileName = this.frameFileName(location, 'unknown');
+            fileInfo = ` (${fileName}:${location.lineNumber}:${location.columnNumber || 0})`;
         }
 
         // Build message with file info and stack trace if available
@@ -224,85 +408,202 @@ export class ConsoleEventHandler {
             }
         }
 
-        this.logWriter.write({
+        this.writeInOrder({
             type: type,
+            level: level,  // Browser warnings (deprecations, interventions) stay warnings for level filters
             source: source,
             message: entry.text, // Just the core message text
             stack: entry.stackTrace?.callFrames?.length > 0 ? this.formatStackTrace(entry.stackTrace, false) : undefined,
-            timestamp: Date.now()
+            frames: this.stackFrames(entry.stackTrace),
+            args: entry.args,
+            timestamp: Date.now(),
+            target
         });
     }
 
     /**
      * Format console arguments into a string
      */
-    private formatArguments(args: any[]): string {
-        return args.map((arg: any) => {
-            // Handle primitive values
-            if (arg.value !== undefined) {
-                return String(arg.value);
+    private formatArguments(args: any[], styles?: ConsoleStyle[]): string {
+        // A leading format string consumes arguments the way the browser does
+        if (args[0]?.type === 'string' && typeof args[0].value === 'string' && args[0].value.includes('%')) {
+            const { text, consumed } = this.applyFormatSpecifiers(args[0].value, args.slice(1), styles);
+            const rest = args.slice(1 + consumed).map((arg: any) => this.formatArgument(arg));
+            return [text, ...rest].join(' ');
+        }
+
+        return args.map((arg: any) => this.formatArgument(arg)).join(' ');
+    }
+
+    /**
+     * Substitute %s %d %i %f %o %O %c in a console format string. %c consumes its argument
+     * as CSS - the text keeps no trace of it and the styled ranges go into `styles`.
+     */
+    private applyFormatSpecifiers(format: string, args: any[], styles?: ConsoleStyle[]): { text: string; consumed: number } {
+        let text = '';
+        let consumed = 0;
+        let openStyle: ConsoleStyle | null = null;
+
+        const closeStyle = () => {
+            if (openStyle) {
+                openStyle.length = text.length - openStyle.offset;
+                if (openStyle.length > 0) {
+                    styles?.push(openStyle);
+                }
+                openStyle = null;
             }
+        };
 
-            // Handle objects with preview (synchronous)
-            if (arg.type === 'object' && arg.preview?.properties) {
-                // Build a proper object structure from preview
-                const obj = this.buildObjectFromPreview(arg.preview);
+        for (let i = 0; i < format.length; i++) {
+            const char = format[i];
+            const specifier = format[i + 1];
+            if (char !== '%' || specifier === undefined) {
+                text += char;
+                continue;
+            }
 
-                // Format as indented JSON
-                try {
-                    const formatted = JSON.stringify(obj, null, 2);
+            if (specifier === '%') {
+                text += '%';
+                i++;
+                continue;
+            }
 
-                    // Add class name prefix if it's not a plain object or array
-                    if (arg.className && arg.className !== 'Object' && arg.className !== 'Array') {
-                        return `${arg.className} ${formatted}`;
-                    }
+            if (!'sdifoOc'.includes(specifier)) {
+                text += char;
+                continue;
+            }
 
-                    return formatted;
-                } catch {
-                    // Fallback to single line if formatting fails
-                    const props = arg.preview.properties
-                        .map((p: any) => `${p.name}: ${p.value || p.type}`)
-                        .join(', ');
-                    const overflow = arg.preview.overflow ? ', ...' : '';
-                    return `${arg.className || 'Object'} {${props}${overflow}}`;
-                }
+            i++;
+            if (consumed >= args.length) {
+                // Nothing left to substitute - the browser prints the specifier as-is
+                text += '%' + specifier;
+                continue;
             }
 
-            // Handle description (including JSON objects and arrays)
-            if (arg.description) {
-                // Check if it's a JSON object or array and format it properly
-                if ((arg.description.startsWith('{') && arg.description.endsWith('}')) ||
-                    (arg.description.startsWith('[') && arg.description.endsWith(']'))) {
-                    try {
-                        // Parse and re-stringify with proper indentation
-                        const obj = JSON.parse(arg.description);
-                        return JSON.stringify(obj, null, 2);
-                    } catch {
-                        // If parsing fails, return as-is
-                        return arg.description;
+            const arg = args[consumed++];
+            switch (specifier) {
+                case 's':
+                    text += arg.type === 'string' ? arg.value : this.formatInline(arg);
+                    break;
+                case 'd':
+                case 'i':
+                    text += this.formatNumber(arg, value => String(Math.trunc(value)));
+                    break;
+                case 'f':
+                    text += this.formatNumber(arg, value => String(value));
+                    break;
+                case 'o':
+                case 'O':
+                    text += this.formatArgument(arg);
+                    break;
+                case 'c': {
+                    closeStyle();
+                    const css = String(arg.value ?? '').trim();
+                    if (css) {
+                        openStyle = { offset: text.length, length: 0, css };
                     }
+                    break;
                 }
-                return arg.description;
             }
+        }
 
-            // Handle functions
-            if (arg.type === 'function') {
-                return '[Function' + (arg.className ? `: ${arg.className}` : '') + ']';
-            }
+        closeStyle();
+        return { text, consumed };
+    }
+
+    private formatNumber(arg: any, format: (value: number) => string): string {
+        if (arg.type === 'bigint') {
+            return arg.unserializableValue || arg.description;
+        }
+        if (arg.type !== 'number') {
+            return 'NaN';
+        }
+        const value = arg.value !== undefined ? arg.value : Number(arg.unserializableValue);
+        return Number.isFinite(value) ? format(value) : String(value);
+    }
+
+    /**
+     * Short single-line form used by %s for non-string arguments
+     */
+    private formatInline(arg: any): string {
+        if (arg.value !== undefined) {
+            return String(arg.value);
+        }
+        if (arg.type === 'bigint') {
+            return arg.unserializableValue || arg.description;
+        }
+        if (arg.type === 'object' && arg.subtype !== 'null') {
+            return arg.description || arg.className || 'Object';
+        }
+        return this.formatArgument(arg);
+    }
+
+    /**
+     * Format a single console argument
+     */
+    private formatArgument(arg: any): string {
+        // Handle primitive values
+        if (arg.value !== undefined) {
+            return String(arg.value);
+        }
 
-            // Handle undefined
-            if (arg.type === 'undefined') {
-                return 'undefined';
+        // Objects expanded via Runtime.getProperties
+        if (arg.expanded !== undefined && typeof arg.expanded === 'object') {
+            const formatted = JSON.stringify(arg.expanded, null, 2);
+            if (arg.className && arg.className !== 'Object' && arg.className !== 'Array') {
+                return `${arg.className} ${formatted}`;
             }
+            return formatted;
+        }
+
+        // Handle objects with preview (synchronous)
+        if (arg.type === 'object' && arg.preview?.properties) {
+            // Build a proper object structure from preview
+            const obj = this.buildObjectFromPreview(arg.preview);
+
+            // Format as indented JSON
+            try {
+                const formatted = JSON.stringify(obj, null, 2);
 
-            // Handle symbols
-            if (arg.type === 'symbol') {
-                return arg.description || 'Symbol()';
+                // Add class name prefix if it's not a plain object or array
+                if (arg.className && arg.className !== 'Object' && arg.className !== 'Array') {
+                    return `${arg.className} ${formatted}`;
+                }
+
+                return formatted;
+            } catch {
+                // Fallback to single line if formatting fails
+                const props = arg.preview.properties
+                    .map((p: any) => `${p.name}: ${p.value || p.type}`)
+                    .join(', ');
+                const overflow = arg.preview.overflow ? ', ...' : '';
+                return `${arg.className || 'Object'} {${props}${overflow}}`;
             }
+        }
+
+        // Handle description (including JSON objects and arrays)
+        if (arg.description) {
+            // JSON objects and arrays get proper indentation, anything else is returned as-is
+            return formatJsonText(arg.description) || arg.description;
+        }
+
+        // Handle functions
+        if (arg.type === 'function') {
+            return '[Function' + (arg.className ? `: ${arg.className}` : '') + ']';
+        }
+
+        // Handle undefined
+        if (arg.type === 'undefined') {
+            return 'undefined';
+        }
+
+        // Handle symbols
+        if (arg.type === 'symbol') {
+            return arg.description || 'Symbol()';
+        }
 
-            // Fallback to type
-            return `[${arg.type}]`;
-        }).join(' ');
+        // Fallback to type
+        return `[${arg.type}]`;
     }
 
     /**
@@ -313,12 +614,13 @@ export class ConsoleEventHandler {
             return '';
         }
 
-        const frames = skipFirst ? stackTrace.callFrames.slice(1) : stackTrace.callFrames;
+        const callFrames = this.resolveFrames(stackTrace.callFrames);
+        const frames = skipFirst ? callFrames.slice(1) : callFrames;
 
         return frames
             .map((frame: any) => {
                 const functionName = frame.functionName || '<anonymous>';
-                const fileName = frame.url ? frame.url.split('/').pop() : 'unknown';
+                const fileName = this.frameFileName(frame, 'unknown');
                 const lineNumber = frame.lineNumber !== undefined ? frame.lineNumber : '?';
                 const columnNumber = frame.columnNumber !== undefined ? frame.columnNumber : '?';
 
@@ -328,6 +630,39 @@ export class ConsoleEventHandler {
             .join('\n');
     }
 
+    /**
+     * Resolved call frames as structured data, for the JSONL log
+     */
+    private stackFrames(stackTrace: any): StackFrame[] | undefined {
+        if (!stackTrace?.callFrames?.length) {
+            return undefined;
+        }
+        return this.resolveFrames(stackTrace.callFrames).map((frame: any) => ({
+            functionName: frame.functionName || undefined,
+            url: frame.url || undefined,
+            lineNumber: frame.lineNumber,
+            columnNumber: frame.columnNumber,
+            sourcePath: frame.sourcePath
+        }));
+    }
+
+    /**
+     * Rewrite bundled frames to original sources when source maps are available
+     */
+    private resolveFrames(callFrames: any[]): any[] {
+        return this.sourceMaps ? this.sourceMaps.resolveStack(callFrames) : callFrames;
+    }
+
+    /**
+     * Workspace path for source-mapped frames, bare file name for everything else
+     */
+    private frameFileName(frame: any, fallback: string): string {
+        if (frame.sourcePath) {
+            return frame.sourcePath;
+        }
+        return frame.url ? frame.url.split('/').pop() : fallback;
+    }
+
     /**
      * Format table data for console.table() calls
      */
@@ -335,7 +670,9 @@ export class ConsoleEventHandler {
         try {
             // Get the actual data from the argument
             let data: any;
-            if (arg.preview?.properties) {
+            if (arg.expanded !== undefined && typeof arg.expanded === 'object') {
+                data = arg.expanded;
+            } else if (arg.preview?.properties) {
                 // Build actual object from preview
                 data = this.buildObjectFromPreview(arg.preview);
             } else if (arg.value !== undefined) {
@@ -0,0 +1,97 @@
+import { LogWriter, TargetInfo } from '../logWriter';
+import { CDPSender } from '../objectExpander';
+
+export type DialogPolicy = 'accept' | 'dismiss' | 'manual';
+
+export interface DialogOptions {
+    policy: DialogPolicy;
+    promptText?: string;  // Answer for accepted prompt() dialogs - the page's default value if unset
+}
+
+interface OpenDialog {
+    type: string;
+    openedAt: number;
+    answeredBy: 'policy' | 'user';
+}
+
+/**
+ * Logs alert(), confirm(), prompt() and beforeunload dialogs and answers them per policy.
+ * A dialog blocks the page until it is answered, so in headless runs nobody else will.
+ */
+export class DialogHandler {
+    private open = new Map<CDPSender, OpenDialog>();
+
+    constructor(private logWriter: LogWriter, private options: DialogOptions) {}
+
+    /**
+     * Handle Page.javascriptDialogOpening - log it, then answer unless the policy is manual
+     */
+    async handleDialogOpening(event: any, session: CDPSender, target?: TargetInfo): Promise<void> {
+        const policy = this.options.policy;
+        const text = event.message ? `${event.type}(${JSON.stringify(event.message)})` : `${event.type} dialog`;
+
+        let outcome: string;
+        if (policy === 'accept') {
+            outcome = 'auto-accepting';
+        } else if (policy === 'dismiss') {
+            outcome = 'auto-dismissing';
+        } else if (event.hasBrowserHandler === false) {
+            outcome = 'no window to answer it in - the page is blocked until it is handled';
+        } else {
+            outcome = 'waiting for the user';
+        }
+
+        this.open.set(session, { type: event.type, openedAt: Date.now(), answeredBy: policy === 'manual' ? 'user' : 'policy' });
+        this.logWriter.write({
+            type: 'dialog',
+            kind: event.type,
+            message: `${text} opened - ${outcome}`,
+            url: event.url,
+            timestamp: Date.now(),
+            target
+        });
+
+        if (policy === 'manual') {
+            return;
+        }
+
+        const accept = policy === 'accept';
+        const params: any = { accept };
+        if (accept && event.type === 'prompt') {
+            params.promptText = this.options.promptText ?? event.defaultPrompt ?? '';
+        }
+        try {
+            await session.send('Page.handleJavaScriptDialog', params);
+        } catch (error: any) {
+            console.log(`   ⚠️ Could not answer ${event.type} dialog: ${error.message}`);
+        }
+    }
+
+    /**
+     * Handle Page.javascriptDialogClosed - log the answer and who gave it
+     */
+    handleDialogClosed(event: any, session: CDPSender, target?: TargetInfo): void {
+        const dialog = this.open.get(session);
+        this.open.delete(session);
+
+        const type = dialog?.type || 'dialog';
+        let answer = event.result ? 'accepted' : 'dismissed';
+        if (event.result && type === 'prompt') {
+            answer += ` with ${JSON.stringify(event.userInput ?? '')}`;
+        }
+        const by = dialog?.answeredBy === 'policy' ? `by policy "${this.options.policy}"` : 'by the user';
+        const after = dialog ? ` after ${this.formatDuration(Date.now() - dialog.openedAt)}` : '';
+
+        this.logWriter.write({
+            type: 'dialog',
+            kind: type,
+            message: `${type} ${answer} ${by}${after}`,
+            timestamp: Date.now(),
+            target
+        });
+    }
+
+    private formatDuration(ms: number): string {
+        return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+    }
+}
@@ -0,0 +1,104 @@
+import { LogWriter } from '../logWriter';
+import { CDPSender } from '../objectExpander';
+import { EmulationProfile, describeProfile, resolveProfiles } from '../emulationProfiles';
+
+/**
+ * Applies emulation profiles (network, CPU, device, user agent, timezone, locale) to
+ * every captured page and switches them mid-session. Each switch is written to the log,
+ * so entries after it are known to have run under that profile.
+ */
+export class EmulationController {
+    private profiles: Record<string, EmulationProfile>;
+    private sessions = new Set<CDPSender>();
+    private activeName: string | null = null;
+
+    constructor(private logWriter: LogWriter, customProfiles?: Record<string, EmulationProfile>) {
+        this.profiles = resolveProfiles(customProfiles);
+    }
+
+    getProfiles(): { name: string; description: string }[] {
+        return Object.entries(this.profiles).map(([name, profile]) => ({ name, description: describeProfile(profile) }));
+    }
+
+    getActiveProfile(): string | null {
+        return this.activeName;
+    }
+
+    /**
+     * Start emulating on a page session - with the active profile, if one was chosen
+     */
+    async attach(session: CDPSender): Promise<void> {
+        this.sessions.add(session);
+        if (this.activeName) {
+            try {
+                await this.apply(session, this.profiles[this.activeName]);
+            } catch (error) {
+                this.sessions.delete(session);
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Forget a page session whose target is gone
+     */
+    detach(session: CDPSender): void {
+        this.sessions.delete(session);
+    }
+
+    /**
+     * Switch every attached page to the named profile
+     */
+    async switchTo(name: string): Promise<void> {
+        const profile = this.profiles[name];
+        if (!profile) {
+            throw new Error(`Unknown emulation profile "${name}"`);
+        }
+
+        this.activeName = name;
+        for (const session of [...this.sessions]) {
+            try {
+                await this.apply(session, profile);
+            } catch {
+                this.sessions.delete(session);  // Tab closed
+            }
+        }
+
+        this.logWriter.write({
+            type: 'lifecycle',
+            message: `════════════ Emulation: ${name} (${describeProfile(profile)}) ════════════`,
+            timestamp: Date.now()
+        });
+    }
+
+    private async apply(session: CDPSender, profile: EmulationProfile): Promise<void> {
+        const network = profile.network;
+        await session.send('Network.emulateNetworkConditions', {
+            offline: network?.offline || false,
+            latency: network?.latency || 0,
+            downloadThroughput: network?.downloadThroughput ?? -1,
+            uploadThroughput: network?.uploadThroughput ?? -1
+        });
+
+        await session.send('Emulation.setCPUThrottlingRate', { rate: profile.cpuThrottling || 1 });
+
+        if (profile.device) {
+            await session.send('Emulation.setDeviceMetricsOverride', {
+                width: profile.device.width,
+                height: profile.device.height,
+                deviceScaleFactor: profile.device.deviceScaleFactor,
+                mobile: profile.device.mobile
+            });
+        } else {
+            await session.send('Emulation.clearDeviceMetricsOverride');
+        }
+        await session.send('Emulation.setTouchEmulationEnabled', {
+            enabled: profile.device?.touch ?? profile.device?.mobile ?? false
+        });
+
+        // An empty value lifts the override
+        await session.send('Network.setUserAgentOverride', { userAgent: profile.userAgent || '' });
+        await session.send('Emulation.setTimezoneOverride', { timezoneId: profile.timezone || '' });
+        await session.send('Emulation.setLocaleOverride', profile.locale ? { locale: profile.locale } : {});
+    }
+}
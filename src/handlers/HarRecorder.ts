@@ -0,0 +1,368 @@
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { CDPSender } from '../objectExpander';
+
+export interface HarRecorderOptions {
+    includeBodies: boolean;  // Fetch response bodies with Network.getResponseBody
+    maxBodySize: number;  // Bodies larger than this (bytes) are left out
+    maxTotalBodySize: number;  // Bodies kept in memory across all entries (bytes)
+    maxEntries: number;  // Oldest entries are dropped past this
+}
+
+const BODY_WAIT = 5000;  // Longest close() waits for bodies still being fetched
+
+interface HarHeader {
+    name: string;
+    value: string;
+}
+
+/**
+ * Everything known about one request while it is in flight
+ */
+interface PendingRequest {
+    requestId: string;
+    request: any;
+    wallTime: number;  // Seconds since epoch when the request started
+    timestamp: number;  // Monotonic seconds when the request started
+    resourceType?: string;
+    requestHeaders?: Record<string, string>;  // Raw headers from requestWillBeSentExtraInfo
+    response?: any;
+    responseHeaders?: Record<string, string>;  // Raw headers from responseReceivedExtraInfo
+    responseTimestamp?: number;
+}
+
+/**
+ * Records every request of a session as a HAR 1.2 log next to the session's .log file.
+ * The file is rewritten periodically while capturing and once more on close, so it can
+ * be opened in Chrome DevTools or any HAR viewer at any time. Entries and bodies are
+ * capped so a long session does not grow memory and each rewrite without bound.
+ */
+export class HarRecorder {
+    private pending = new Map<string, PendingRequest>();
+    private entries: any[] = [];
+    private droppedEntries = 0;
+    private bodyBytes = 0;
+    private bodyFetches = new Set<Promise<void>>();
+    private flushTimer: NodeJS.Timeout | null = null;
+    private dirty = false;
+    private writing: Promise<void> = Promise.resolve();
+    private options: HarRecorderOptions;
+    private version = 'unknown';  // DevMirror version for creator.version
+
+    constructor(private harPath: string, options?: Partial<HarRecorderOptions>) {
+        this.options = { includeBodies: true, maxBodySize: 1024 * 1024, maxTotalBodySize: 50 * 1024 * 1024, maxEntries: 10000, ...options };
+        try {
+            this.version = JSON.parse(readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf-8')).version;
+        } catch {
+            // Running from an unusual layout - the version is informational only
+        }
+        this.flushTimer = setInterval(() => {
+            if (this.dirty) {
+                this.flush();
+            }
+        }, 5000);
+        this.flushTimer.unref();
+    }
+
+    getHarPath(): string {
+        return this.harPath;
+    }
+
+    /**
+     * Handle Network.requestWillBeSent - also closes out the previous hop of a redirect
+     */
+    handleRequestWillBeSent(event: any): void {
+        const previous = this.pending.get(event.requestId);
+        if (previous?.request && event.redirectResponse) {
+            previous.response = event.redirectResponse;
+            previous.responseTimestamp = event.timestamp;
+            this.addEntry(previous, event.timestamp, 0, event.request.url);
+        }
+
+        this.pending.set(event.requestId, {
+            requestId: event.requestId,
+            request: event.request,
+            wallTime: event.wallTime,
+            timestamp: event.timestamp,
+            resourceType: event.type,
+            // Extra info can arrive before requestWillBeSent
+            requestHeaders: previous && !event.redirectResponse ? previous.requestHeaders : undefined
+        });
+    }
+
+    handleRequestWillBeSentExtraInfo(event: any): void {
+        const pending = this.pending.get(event.requestId);
+        if (pending) {
+            pending.requestHeaders = event.headers;
+        } else {
+            this.pending.set(event.requestId, { requestId: event.requestId, request: null, wallTime: 0, timestamp: 0, requestHeaders: event.headers });
+        }
+    }
+
+    handleResponseReceived(event: any): void {
+        const pending = this.pending.get(event.requestId);
+        if (pending) {
+            pending.response = event.response;
+            pending.responseTimestamp = event.timestamp;
+        }
+    }
+
+    handleResponseReceivedExtraInfo(event: any): void {
+        const pending = this.pending.get(event.requestId);
+        if (pending) {
+            pending.responseHeaders = event.headers;
+        }
+    }
+
+    /**
+     * Handle Network.loadingFinished - fetches the body (within the size cap) and completes the entry
+     */
+    handleLoadingFinished(event: any, session?: CDPSender): Promise<void> {
+        const pending = this.pending.get(event.requestId);
+        if (!pending?.request) {
+            return Promise.resolve();
+        }
+        this.pending.delete(event.requestId);
+
+        // close() waits for these, so bodies still arriving make it into the final HAR
+        const fetch = this.completeWithBody(pending, event, session).finally(() => this.bodyFetches.delete(fetch));
+        this.bodyFetches.add(fetch);
+        return fetch;
+    }
+
+    private async completeWithBody(pending: PendingRequest, event: any, session?: CDPSender): Promise<void> {
+        let content: { text?: string; encoding?: string; comment?: string } = {};
+        const size = event.encodedDataLength || 0;
+        if (this.options.includeBodies && session && pending.response && pending.response.status !== 204) {
+            if (size > this.options.maxBodySize) {
+                content = { comment: `Body omitted (${size} bytes exceeds ${this.options.maxBodySize})` };
+            } else if (this.bodyBytes + size > this.options.maxTotalBodySize) {
+                content = { comment: `Body omitted (total body size reached ${this.options.maxTotalBodySize})` };
+            } else {
+                try {
+                    const body = await session.send('Network.getResponseBody', { requestId: event.requestId });
+                    content = body.base64Encoded ? { text: body.body, encoding: 'base64' } : { text: body.body };
+                } catch {
+                    // Body was evicted from the buffer or the target went away
+                }
+            }
+        }
+
+        this.addEntry(pending, event.timestamp, event.encodedDataLength, '', content);
+    }
+
+    handleLoadingFailed(event: any): void {
+        const pending = this.pending.get(event.requestId);
+        if (!pending?.request) {
+            return;
+        }
+        this.pending.delete(event.requestId);
+        this.addEntry(pending, event.timestamp, 0, '', { comment: event.errorText }, event.errorText || 'Failed');
+    }
+
+    /**
+     * Write the final HAR - call while the session is still connected, so bodies of
+     * requests that just finished can still be fetched
+     */
+    async close(): Promise<void> {
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        if (this.bodyFetches.size > 0) {
+            let timer: NodeJS.Timeout | undefined;
+            await Promise.race([
+                Promise.all(this.bodyFetches),
+                new Promise(resolve => {
+                    timer = setTimeout(resolve, BODY_WAIT);
+                })
+            ]);
+            clearTimeout(timer);
+        }
+        await this.flush();
+    }
+
+    private addEntry(pending: PendingRequest, endTimestamp: number, encodedDataLength: number,
+                     redirectURL: string, content: any = {}, error?: string): void {
+        const request = pending.request;
+        const response = pending.response;
+        const timings = this.buildTimings(pending, endTimestamp);
+
+        const requestHeaders = this.toHarHeaders(pending.requestHeaders || request.headers);
+        const responseHeaders = this.toHarHeaders(pending.responseHeaders || response?.headers);
+
+        const entry: any = {
+            startedDateTime: new Date(pending.wallTime * 1000).toISOString(),
+            // ssl is already part of connect
+            time: Object.entries(timings).reduce((sum, [name, t]) => name === 'ssl' ? sum : sum + Math.max(t, 0), 0),
+            request: {
+                method: request.method,
+                url: request.url + (request.urlFragment || ''),
+                httpVersion: response?.protocol ? this.httpVersion(response.protocol) : 'HTTP/1.1',
+                cookies: this.parseCookies(this.findHeader(requestHeaders, 'cookie')),
+                headers: requestHeaders,
+                queryString: this.parseQueryString(request.url),
+                headersSize: -1,
+                bodySize: request.postData ? Buffer.byteLength(request.postData) : 0
+            },
+            response: {
+                status: error ? 0 : response?.status || 0,
+                statusText: error ? '' : response?.statusText || '',
+                httpVersion: response?.protocol ? this.httpVersion(response.protocol) : 'HTTP/1.1',
+                cookies: this.parseSetCookies(this.findHeader(responseHeaders, 'set-cookie')),
+                headers: responseHeaders,
+                content: {
+                    size: content.text !== undefined && !content.encoding ? Buffer.byteLength(content.text) : encodedDataLength || 0,
+                    mimeType: response?.mimeType || 'x-unknown',
+                    ...content
+                },
+                redirectURL: redirectURL,
+                headersSize: -1,
+                bodySize: encodedDataLength || -1
+            },
+            cache: {},
+            timings: timings,
+            _resourceType: pending.resourceType?.toLowerCase()
+        };
+
+        if (request.postData) {
+            entry.request.postData = {
+                mimeType: this.findHeader(requestHeaders, 'content-type') || '',
+                text: request.postData
+            };
+        }
+        if (response?.remoteIPAddress) {
+            entry.serverIPAddress = response.remoteIPAddress.replace(/^\[|\]$/g, '');
+        }
+        if (error) {
+            entry._error = error;
+        }
+
+        this.entries.push(entry);
+        this.bodyBytes += this.bodySize(entry);
+        while (this.entries.length > this.options.maxEntries) {
+            this.bodyBytes -= this.bodySize(this.entries.shift());
+            this.droppedEntries++;
+        }
+        this.dirty = true;
+    }
+
+    private bodySize(entry: any): number {
+        const text = entry.response.content.text;
+        return text !== undefined ? text.length : 0;
+    }
+
+    /**
+     * HAR timings (ms) from the response's ResourceTiming, following Chrome's own HAR export
+     */
+    private buildTimings(pending: PendingRequest, endTimestamp: number): Record<string, number> {
+        const timing = pending.response?.timing;
+        const total = Math.max((endTimestamp - pending.timestamp) * 1000, 0);
+
+        if (!timing) {
+            const wait = pending.responseTimestamp ? (pending.responseTimestamp - pending.timestamp) * 1000 : total;
+            return { blocked: 0, dns: -1, ssl: -1, connect: -1, send: 0, wait: Math.max(wait, 0), receive: Math.max(total - wait, 0) };
+        }
+
+        const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find((t: number) => t >= 0) || 0;
+        const queued = Math.max((timing.requestTime - pending.timestamp) * 1000, 0);
+        const receiveEnd = (endTimestamp - timing.requestTime) * 1000;
+
+        return {
+            blocked: queued + firstStart,
+            dns: timing.dnsStart >= 0 ? timing.dnsEnd - timing.dnsStart : -1,
+            ssl: timing.sslStart >= 0 ? timing.sslEnd - timing.sslStart : -1,
+            connect: timing.connectStart >= 0 ? timing.connectEnd - timing.connectStart : -1,
+            send: Math.max(timing.sendEnd - timing.sendStart, 0),
+            wait: Math.max(timing.receiveHeadersEnd - timing.sendEnd, 0),
+            receive: Math.max(receiveEnd - timing.receiveHeadersEnd, 0)
+        };
+    }
+
+    /**
+     * One write at a time - the interval can fire while the previous write is still running
+     */
+    private flush(): Promise<void> {
+        this.writing = this.writing.then(() => this.write());
+        return this.writing;
+    }
+
+    private async write(): Promise<void> {
+        this.dirty = false;
+        const entries = [...this.entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+        const har = {
+            log: {
+                version: '1.2',
+                creator: { name: 'DevMirror', version: this.version },
+                pages: [],
+                entries: entries,
+                ...(this.droppedEntries > 0 && { comment: `${this.droppedEntries} earlier entries dropped (maxEntries ${this.options.maxEntries})` })
+            }
+        };
+
+        // Write to a temp file first so a reader never sees a half-written HAR
+        const tempPath = this.harPath + '.tmp';
+        try {
+            await fs.writeFile(tempPath, JSON.stringify(har, null, 2), 'utf8');
+            await fs.rename(tempPath, this.harPath);
+        } catch (error) {
+            console.log('   ⚠️ Could not write HAR file:', error);
+        }
+    }
+
+    private toHarHeaders(headers?: Record<string, string>): HarHeader[] {
+        if (!headers) {
+            return [];
+        }
+        // Multiple values of one header arrive joined by newlines
+        const result: HarHeader[] = [];
+        for (const [name, value] of Object.entries(headers)) {
+            for (const line of String(value).split('\n')) {
+                result.push({ name, value: line });
+            }
+        }
+        return result;
+    }
+
+    private findHeader(headers: HarHeader[], name: string): string | undefined {
+        const matches = headers.filter(h => h.name.toLowerCase() === name);
+        return matches.length > 0 ? matches.map(h => h.value).join('\n') : undefined;
+    }
+
+    private parseCookies(header?: string): { name: string; value: string }[] {
+        if (!header) {
+            return [];
+        }
+        return header.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+            const eq = part.indexOf('=');
+            return eq === -1 ? { name: part, value: '' } : { name: part.substring(0, eq), value: part.substring(eq + 1) };
+        });
+    }
+
+    private parseSetCookies(header?: string): { name: string; value: string }[] {
+        if (!header) {
+            return [];
+        }
+        return header.split('\n').map(line => this.parseCookies(line.split(';')[0])[0]).filter(Boolean);
+    }
+
+    private parseQueryString(url: string): { name: string; value: string }[] {
+        try {
+            return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+        } catch {
+            return [];
+        }
+    }
+
+    private httpVersion(protocol: string): string {
+        if (protocol === 'h2') {
+            return 'HTTP/2.0';
+        }
+        if (protocol === 'h3') {
+            return 'HTTP/3.0';
+        }
+        return protocol.toUpperCase();
+    }
+}
@@ -0,0 +1,302 @@
+import { LogWriter, TargetInfo } from '../logWriter';
+import { SourceMapResolver } from '../sourceMapResolver';
+
+// Readable explanations for the most common issue reasons, worded after the DevTools Issues tab
+const COOKIE_REASONS: Record<string, string> = {
+    ExcludeSameSiteUnspecifiedTreatedAsLax: 'Cookie has no SameSite attribute and was treated as SameSite=Lax, so it was not sent with a cross-site request',
+    ExcludeSameSiteNoneInsecure: 'Cookie has SameSite=None but is not marked Secure, so it was blocked',
+    ExcludeSameSiteLax: 'Cookie has SameSite=Lax and was blocked on a cross-site request',
+    ExcludeSameSiteStrict: 'Cookie has SameSite=Strict and was blocked on a cross-site request',
+    ExcludeInvalidSameParty: 'Cookie has an invalid SameParty attribute',
+    ExcludeDomainNonASCII: 'Cookie domain contains non-ASCII characters',
+    ExcludeThirdPartyCookieBlockedInFirstPartySet: 'Third-party cookie was blocked',
+    ExcludeThirdPartyPhaseout: 'Third-party cookie was blocked by the third-party cookie phase-out',
+    WarnSameSiteUnspecifiedCrossSiteContext: 'Cookie has no SameSite attribute - it will be blocked on cross-site requests',
+    WarnSameSiteNoneInsecure: 'Cookie has SameSite=None without Secure - it will be blocked',
+    WarnSameSiteUnspecifiedLaxAllowUnsafe: 'Cookie has no SameSite attribute and is only sent on top-level POST for a short time',
+    WarnThirdPartyPhaseout: 'Third-party cookie will be blocked by the third-party cookie phase-out',
+    WarnCrossDowngrade: 'Cookie is being sent from a secure context to an insecure one',
+    WarnDomainNonASCII: 'Cookie domain contains non-ASCII characters'
+};
+
+const CORS_REASONS: Record<string, string> = {
+    MissingAllowOriginHeader: 'No Access-Control-Allow-Origin header is present on the response',
+    MultipleAllowOriginValues: 'Access-Control-Allow-Origin contains multiple values',
+    InvalidAllowOriginValue: 'Access-Control-Allow-Origin has an invalid value',
+    AllowOriginMismatch: 'Access-Control-Allow-Origin does not match the requesting origin',
+    InvalidAllowCredentials: 'Credentialed request but Access-Control-Allow-Credentials is not "true"',
+    WildcardOriginNotAllowed: 'Access-Control-Allow-Origin is "*" on a credentialed request',
+    PreflightMissingAllowOriginHeader: 'Preflight response has no Access-Control-Allow-Origin header',
+    PreflightAllowOriginMismatch: 'Preflight Access-Control-Allow-Origin does not match the requesting origin',
+    PreflightInvalidStatus: 'Preflight response does not have an HTTP ok status',
+    PreflightDisallowedRedirect: 'Preflight request was redirected, which is not allowed',
+    PreflightInvalidAllowCredentials: 'Preflight Access-Control-Allow-Credentials is not "true"',
+    MethodDisallowedByPreflightResponse: 'Request method is not listed in Access-Control-Allow-Methods',
+    HeaderDisallowedByPreflightResponse: 'Request header is not listed in Access-Control-Allow-Headers',
+    RedirectContainsCredentials: 'Redirect URL contains credentials',
+    DisallowedByMode: 'Request mode does not allow this cross-origin request',
+    CorsDisabledScheme: 'Cross-origin requests are not supported for this URL scheme',
+    InsecurePrivateNetwork: 'Request to a private network resource from an insecure context',
+    UnexpectedPrivateNetworkAccess: 'Unexpected request to a private network resource'
+};
+
+const CSP_REASONS: Record<string, string> = {
+    kInlineViolation: 'Inline script or style was blocked',
+    kEvalViolation: 'eval() or a similar string-to-code call was blocked',
+    kURLViolation: 'Loading a resource was blocked',
+    kTrustedTypesSinkViolation: 'A Trusted Types sink received a plain string',
+    kTrustedTypesPolicyViolation: 'A Trusted Types policy creation was blocked',
+    kWasmEvalViolation: 'WebAssembly compilation was blocked'
+};
+
+const ISSUE_LABELS: Record<string, string> = {
+    CookieIssue: 'cookie',
+    MixedContentIssue: 'mixed-content',
+    BlockedByResponseIssue: 'blocked',
+    HeavyAdIssue: 'heavy-ad',
+    ContentSecurityPolicyIssue: 'csp',
+    SharedArrayBufferIssue: 'shared-array-buffer',
+    CorsIssue: 'cors',
+    DeprecationIssue: 'deprecation',
+    GenericIssue: 'generic',
+    QuirksModeIssue: 'quirks-mode',
+    LowTextContrastIssue: 'contrast'
+};
+
+/**
+ * Writes Chrome "Issues" tab entries (Audits.issueAdded) - cookie blocks, CSP
+ * violations, CORS failures, mixed content, deprecations - one entry per
+ * distinct issue per page load. Issues that blocked something are errors, the rest warnings.
+ */
+export class IssueEventHandler {
+    private logWriter: LogWriter;
+    private sourceMaps?: SourceMapResolver;
+    private seenIssues = new Map<string, Set<string>>();  // Per target, so one tab navigating does not reset another
+    private frameUrls = new Map<string, { url: string; target: string }>();  // frameId -> URL, for issues that only name a frame
+
+    constructor(logWriter: LogWriter, sourceMaps?: SourceMapResolver) {
+        this.logWriter = logWriter;
+        this.sourceMaps = sourceMaps;
+    }
+
+    /**
+     * Handle Page.frameNavigated - tracks frame URLs and starts a fresh issue list when that tab loads a page
+     */
+    handleFrameNavigated(event: any, target?: TargetInfo): void {
+        const key = this.targetKey(target);
+        if (event.frame.parentId === undefined) {
+            this.seenIssues.delete(key);
+            for (const [frameId, frame] of this.frameUrls) {
+                if (frame.target === key) {
+                    this.frameUrls.delete(frameId);
+                }
+            }
+        }
+        this.frameUrls.set(event.frame.id, { url: event.frame.url, target: key });
+    }
+
+    /**
+     * Handle Audits.issueAdded
+     */
+    handleIssueAdded(event: any, target?: TargetInfo): void {
+        const issue = event.issue;
+        if (!issue?.code) {
+            return;
+        }
+
+        // Chrome reports the same issue again for every affected request - keep the first one
+        const key = `${issue.code}:${JSON.stringify(this.identity(issue))}`;
+        const targetKey = this.targetKey(target);
+        const seen = this.seenIssues.get(targetKey) || new Set<string>();
+        if (seen.has(key)) {
+            return;
+        }
+        seen.add(key);
+        this.seenIssues.set(targetKey, seen);
+
+        const lines = this.describe(issue);
+        const affected = this.affectedResource(issue);
+
+        this.logWriter.write({
+            type: 'issue',
+            kind: ISSUE_LABELS[issue.code] || issue.code.replace(/Issue$/, '').toLowerCase(),
+            message: lines.join('\n'),
+            url: affected,
+            level: this.isBlocking(issue) ? 'error' : 'warning',
+            timestamp: Date.now(),
+            target
+        });
+    }
+
+    private targetKey(target?: TargetInfo): string {
+        return target ? `${target.type}:${target.targetId || target.id || target.url || ''}` : 'page';
+    }
+
+    /**
+     * Whether the browser refused something, rather than warning about it
+     */
+    private isBlocking(issue: any): boolean {
+        const details = this.detailsOf(issue);
+        switch (issue.code) {
+            case 'CookieIssue':
+                return (details.cookieExclusionReasons || []).length > 0;
+            case 'CorsIssue':
+                return !details.isWarning;
+            case 'ContentSecurityPolicyIssue':
+                return !details.isReportOnly;
+            case 'MixedContentIssue':
+                return details.resolutionStatus === 'MixedContentBlocked';
+            case 'HeavyAdIssue':
+                return details.resolution === 'HeavyAdBlocked';
+            case 'BlockedByResponseIssue':
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * The parts of an issue that make it distinct - request ids and node ids differ per occurrence
+     */
+    private identity(issue: any): any {
+        const details = this.detailsOf(issue);
+        const { request, frame, affectedFrame, violatingNodeId, sourceCodeLocation, ...rest } = details || {};
+        return {
+            ...rest,
+            url: request?.url || details?.cookieUrl || details?.insecureURL || details?.blockedURL,
+            location: sourceCodeLocation ? `${sourceCodeLocation.url}:${sourceCodeLocation.lineNumber}` : undefined
+        };
+    }
+
+    private detailsOf(issue: any): any {
+        const details = issue.details || {};
+        const key = Object.keys(details).find(name => name.endsWith('Details'));
+        return key ? details[key] : {};
+    }
+
+    private describe(issue: any): string[] {
+        const details = this.detailsOf(issue);
+
+        switch (issue.code) {
+            case 'CookieIssue': {
+                const reasons = [...(details.cookieExclusionReasons || []), ...(details.cookieWarningReasons || [])];
+                const name = details.cookie?.name || details.rawCookieLine?.split('=')[0] || 'cookie';
+                const operation = details.operation === 'SetCookie' ? 'set' : 'sent';
+                return [
+                    `Cookie "${name}" was not ${operation} as expected`,
+                    ...reasons.map((reason: string) => `  ${COOKIE_REASONS[reason] || reason}`)
+                ];
+            }
+
+            case 'CorsIssue': {
+                const error = details.corsErrorStatus?.corsError;
+                const lines = [`CORS ${details.isWarning ? 'warning' : 'error'}: ${CORS_REASONS[error] || error || 'request blocked'}`];
+                if (details.corsErrorStatus?.failedParameter) {
+                    lines.push(`  Failed parameter: ${details.corsErrorStatus.failedParameter}`);
+                }
+                if (details.initiatorOrigin) {
+                    lines.push(`  Initiator origin: ${details.initiatorOrigin}`);
+                }
+                return lines;
+            }
+
+            case 'ContentSecurityPolicyIssue': {
+                const type = details.contentSecurityPolicyViolationType;
+                const lines = [
+                    `Content Security Policy${details.isReportOnly ? ' (report-only)' : ''}: ${CSP_REASONS[type] || type}`,
+                    `  Violated directive: ${details.violatedDirective}`
+                ];
+                if (details.blockedURL) {
+                    lines.push(`  Blocked URL: ${details.blockedURL}`);
+                }
+                return [...lines, ...this.formatLocation(details.sourceCodeLocation)];
+            }
+
+            case 'MixedContentIssue':
+                return [
+                    `Mixed content: ${details.resourceType || 'resource'} loaded over HTTP on an HTTPS page (${this.humanize(details.resolutionStatus)})`,
+                    `  Insecure URL: ${details.insecureURL}`
+                ];
+
+            case 'BlockedByResponseIssue':
+                return [`Response blocked: ${this.humanize(details.reason)}`];
+
+            case 'HeavyAdIssue':
+                return [`Heavy ad: ${this.humanize(details.reason)} (${this.humanize(details.resolution)})`];
+
+            case 'SharedArrayBufferIssue':
+                return [
+                    `SharedArrayBuffer ${details.type === 'CreationIssue' ? 'creation' : 'transfer'} requires cross-origin isolation`,
+                    ...this.formatLocation(details.sourceCodeLocation)
+                ];
+
+            case 'DeprecationIssue':
+                return [`Deprecated feature used: ${this.humanize(details.type)}`, ...this.formatLocation(details.sourceCodeLocation)];
+
+            case 'QuirksModeIssue':
+                return [`Page is in ${details.isLimitedQuirksMode ? 'limited quirks' : 'quirks'} mode - add <!DOCTYPE html>`];
+
+            case 'GenericIssue':
+                return [
+                    `${this.humanize(details.errorType)}${details.violatingNodeAttribute ? ` (attribute: ${details.violatingNodeAttribute})` : ''}`
+                ];
+
+            default:
+                return [`${this.humanize(issue.code.replace(/Issue$/, ''))}: ${JSON.stringify(details)}`];
+        }
+    }
+
+    /**
+     * The request or frame an issue is about, as a URL where one is known
+     */
+    private affectedResource(issue: any): string | undefined {
+        const details = this.detailsOf(issue);
+        if (details.request?.url) {
+            return details.request.url;
+        }
+        if (details.cookieUrl) {
+            return details.cookieUrl;
+        }
+        if (details.mainResourceURL) {
+            return details.mainResourceURL;
+        }
+
+        const frameId = details.frame?.frameId || details.affectedFrame?.frameId || details.blockedFrame?.frameId || details.frameId;
+        if (frameId) {
+            return this.frameUrls.get(frameId)?.url || `Frame ID: ${frameId}`;
+        }
+        if (details.request?.requestId) {
+            return `Request ID: ${details.request.requestId}`;
+        }
+        return details.url;
+    }
+
+    private formatLocation(location: any): string[] {
+        if (!location?.url) {
+            return [];
+        }
+
+        const resolved = this.sourceMaps?.resolveLocation(location.url, location.lineNumber, location.columnNumber, location.scriptId);
+        const fileName = resolved?.sourcePath || location.url.split('/').pop();
+        const line = (resolved?.lineNumber ?? location.lineNumber) + 1;  // CDP uses 0-based line numbers
+        const column = (resolved?.columnNumber ?? location.columnNumber) + 1;
+        return [`  at ${fileName}:${line}:${column}`];
+    }
+
+    /**
+     * "DOMMutationEvents" -> "DOM mutation events"
+     */
+    private humanize(value: string | undefined): string {
+        if (!value) {
+            return 'unknown';
+        }
+        const words = value
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .replace(/_/g, ' ')
+            .split(' ')
+            .map(word => /^[A-Z0-9]+$/.test(word) && word.length > 1 ? word : word.toLowerCase())
+            .join(' ');
+        return words.charAt(0).toUpperCase() + words.slice(1);
+    }
+}
@@ -1,16 +1,79 @@
-import { LogWriter } from '../logWriter';
+import { LogWriter, TargetInfo } from '../logWriter';
+import { DevMirrorConfig } from '../configHandler';
+import { SourceMapResolver } from '../sourceMapResolver';
+import { isUrlIncluded } from '../urlPattern';
+import { formatJsonText, truncateText } from './formatting';
 
 export class NetworkEventHandler {
     private logWriter: LogWriter;
+    private config: DevMirrorConfig;
+    private sourceMaps?: SourceMapResolver;
+    private messageUrls = new Map<string, string>();  // WebSocket/EventSource requestId -> URL
 
-    constructor(logWriter: LogWriter) {
+    constructor(logWriter: LogWriter, config: DevMirrorConfig, sourceMaps?: SourceMapResolver) {
         this.logWriter = logWriter;
+        this.config = config;
+        this.sourceMaps = sourceMaps;
+    }
+
+    /**
+     * Handle outgoing requests - remembers EventSource URLs for their messages
+     */
+    handleRequestWillBeSent(event: any): void {
+        if (event.type === 'EventSource' && this.config.networkMessages?.enabled) {
+            this.messageUrls.set(event.requestId, event.request.url);
+        }
+    }
+
+    /**
+     * Handle Network.webSocketCreated
+     */
+    handleWebSocketCreated(event: any, target?: TargetInfo): void {
+        if (!this.config.networkMessages?.enabled) {
+            return;
+        }
+        this.messageUrls.set(event.requestId, event.url);
+        this.writeMessageEntry('websocket', event.requestId, 'WebSocket opened', target);
+    }
+
+    handleWebSocketFrameSent(event: any, target?: TargetInfo): void {
+        this.writeMessageEntry('websocket', event.requestId, `▲ Sent: ${this.formatFrame(event.response)}`, target);
+    }
+
+    handleWebSocketFrameReceived(event: any, target?: TargetInfo): void {
+        this.writeMessageEntry('websocket', event.requestId, `▼ Received: ${this.formatFrame(event.response)}`, target);
+    }
+
+    handleWebSocketFrameError(event: any, target?: TargetInfo): void {
+        this.writeMessageEntry('websocket', event.requestId, `Frame error: ${event.errorMessage}`, target);
+    }
+
+    handleWebSocketClosed(event: any, target?: TargetInfo): void {
+        this.writeMessageEntry('websocket', event.requestId, 'WebSocket closed', target);
+        this.messageUrls.delete(event.requestId);
+    }
+
+    /**
+     * Handle Network.eventSourceMessageReceived
+     */
+    handleEventSourceMessageReceived(event: any, target?: TargetInfo): void {
+        const name = event.eventName && event.eventName !== 'message' ? ` (${event.eventName})` : '';
+        const id = event.eventId ? ` #${event.eventId}` : '';
+        this.writeMessageEntry('eventsource', event.requestId, `▼ Event${name}${id}: ${this.formatPayload(event.data || '')}`, target);
+    }
+
+    /**
+     * Handle Network.loadingFinished - an EventSource stream that ended is done with its URL
+     */
+    handleLoadingFinished(event: any): void {
+        this.messageUrls.delete(event.requestId);
     }
 
     /**
      * Handle network loading failures
      */
     handleLoadingFailed(event: any): void {
+        this.messageUrls.delete(event.requestId);
         const errorText = event.errorText || 'Unknown error';
         const blockedReason = event.blockedReason;
 
@@ -114,10 +177,10 @@ export class NetworkEventHandler {
 
         // Check if initiator has a stack trace
         if (initiator.stack?.callFrames?.length > 0) {
-            const frames = initiator.stack.callFrames;
+            const frames = this.resolveFrames(initiator.stack.callFrames);
             return frames.map((frame: any) => {
                 const functionName = frame.functionName || '<anonymous>';
-                const fileName = frame.url ? frame.url.split('/').pop() : 'unknown';
+                const fileName = frame.sourcePath || (frame.url ? frame.url.split('/').pop() : 'unknown');
                 const lineNumber = frame.lineNumber !== undefined ? frame.lineNumber + 1 : '?';  // CDP uses 0-based line numbers
                 const columnNumber = frame.columnNumber !== undefined ? frame.columnNumber + 1 : '?';
 
@@ -128,10 +191,59 @@ export class NetworkEventHandler {
 
         // If no stack trace but has line/column info
         if (initiator.lineNumber !== undefined) {
-            const fileName = initiator.url ? initiator.url.split('/').pop() : 'unknown';
-            return `    at <anonymous> (${fileName}:${initiator.lineNumber + 1}:${(initiator.columnNumber || 0) + 1})`;
+            const location = this.resolveFrames([initiator])[0];
+            const fileName = location.sourcePath || (location.url ? location.url.split('/').pop() : 'unknown');
+            return `    at <anonymous> (${fileName}:${location.lineNumber + 1}:${(location.columnNumber || 0) + 1})`;
         }
 
         return null;
     }
+
+    private writeMessageEntry(kind: string, requestId: string, message: string, target?: TargetInfo): void {
+        const url = this.messageUrls.get(requestId);
+        const options = this.config.networkMessages;
+        if (!url || !options?.enabled || !isUrlIncluded(url, options.include, options.exclude)) {
+            return;
+        }
+
+        this.logWriter.write({
+            type: 'network',
+            kind: kind,
+            message: message,
+            url: url,
+            timestamp: Date.now(),
+            target
+        });
+    }
+
+    private formatFrame(frame: any): string {
+        // Opcode 1 is text; everything else arrives base64-encoded
+        if (frame.opcode !== undefined && frame.opcode !== 1) {
+            const bytes = Buffer.from(frame.payloadData || '', 'base64').length;
+            return `[binary ${bytes} bytes]`;
+        }
+        return this.formatPayload(frame.payloadData || '');
+    }
+
+    /**
+     * Payloads use the same JSON formatting as console objects, within the configured length
+     */
+    private formatPayload(payload: string): string {
+        const maxLength = this.config.networkMessages?.maxPayloadLength ?? 2000;
+        if (payload.length > maxLength) {
+            return truncateText(payload, maxLength);
+        }
+        if (this.config.networkMessages?.prettyPrintJson === false) {
+            return payload;
+        }
+        const json = formatJsonText(payload);
+        return json ? '\n' + json : payload;
+    }
+
+    /**
+     * Rewrite bundled frames to original sources when source maps are available
+     */
+    private resolveFrames(callFrames: any[]): any[] {
+        return this.sourceMaps ? this.sourceMaps.resolveStack(callFrames) : callFrames;
+    }
 }
\ No newline at end of file
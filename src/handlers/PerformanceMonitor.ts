@@ -0,0 +1,207 @@
+import { LogWriter, TargetInfo } from '../logWriter';
+import { SourceMapResolver } from '../sourceMapResolver';
+import { CDPSender } from '../objectExpander';
+
+export interface PerformanceOptions {
+    sampleInterval: number;  // ms between Performance.getMetrics samples (0 = no sampling)
+    longTaskThreshold: number;  // ms - violation report for long tasks
+    longLayoutThreshold: number;  // ms - violation report for forced reflow / long layout
+    blockedEventThreshold: number;  // ms - violation report for input handlers blocking the main thread
+    handlerThreshold: number;  // ms - violation report for slow setTimeout/event handlers
+    layoutShiftThreshold: number;  // Layout shifts scoring below this are not logged
+}
+
+export const DEFAULT_PERFORMANCE_OPTIONS: PerformanceOptions = {
+    sampleInterval: 10000,
+    longTaskThreshold: 50,
+    longLayoutThreshold: 30,
+    blockedEventThreshold: 100,
+    handlerThreshold: 150,
+    layoutShiftThreshold: 0.01
+};
+
+// Sampled metrics and how they are shown; counters also show the change since the last sample
+const SAMPLED_METRICS: { name: string; label: string; bytes?: boolean; counter?: boolean }[] = [
+    { name: 'JSHeapUsedSize', label: 'Heap', bytes: true },
+    { name: 'JSHeapTotalSize', label: 'Heap total', bytes: true },
+    { name: 'Nodes', label: 'DOM nodes' },
+    { name: 'JSEventListeners', label: 'Listeners' },
+    { name: 'Documents', label: 'Documents' },
+    { name: 'LayoutCount', label: 'Layouts', counter: true },
+    { name: 'RecalcStyleCount', label: 'Style recalcs', counter: true }
+];
+
+/**
+ * Records performance signals next to the console: periodic Performance.getMetrics
+ * samples, PerformanceTimeline events (LCP, layout shifts, long tasks) and
+ * Log.startViolationsReport violations.
+ */
+export class PerformanceMonitor {
+    private options: PerformanceOptions;
+    private sampleTimer: NodeJS.Timeout | null = null;
+    private lastMetrics = new Map<string, number>();
+
+    constructor(private logWriter: LogWriter, options?: Partial<PerformanceOptions>, private sourceMaps?: SourceMapResolver) {
+        this.options = { ...DEFAULT_PERFORMANCE_OPTIONS, ...options };
+    }
+
+    /**
+     * Enable the timeline and violation reports on a session. Metrics are only sampled
+     * for the page session (sampleMetrics), child targets report timeline events only.
+     */
+    async enable(session: CDPSender, sampleMetrics: boolean): Promise<void> {
+        try {
+            await session.send('Log.startViolationsReport', {
+                config: [
+                    { name: 'longTask', threshold: this.options.longTaskThreshold },
+                    { name: 'longLayout', threshold: this.options.longLayoutThreshold },
+                    { name: 'blockedEvent', threshold: this.options.blockedEventThreshold },
+                    { name: 'handler', threshold: this.options.handlerThreshold },
+                    { name: 'recurringHandler', threshold: this.options.handlerThreshold }
+                ]
+            });
+        } catch {
+            // Workers have no violation reports
+        }
+
+        try {
+            await session.send('PerformanceTimeline.enable', {
+                eventTypes: ['largest-contentful-paint', 'layout-shift', 'longtask']
+            });
+        } catch {
+            // Older Chrome versions reject event types they do not know - retry without long tasks
+            await session.send('PerformanceTimeline.enable', {
+                eventTypes: ['largest-contentful-paint', 'layout-shift']
+            }).catch(() => {});
+        }
+
+        if (sampleMetrics && this.options.sampleInterval > 0) {
+            try {
+                await session.send('Performance.enable');
+            } catch (error: any) {
+                console.log(`   ⚠️ Performance metrics unavailable: ${error.message}`);
+                return;
+            }
+
+            this.stop();
+            this.sampleTimer = setInterval(() => this.sample(session), this.options.sampleInterval);
+            this.sampleTimer.unref();
+        }
+    }
+
+    stop(): void {
+        if (this.sampleTimer) {
+            clearInterval(this.sampleTimer);
+            this.sampleTimer = null;
+        }
+    }
+
+    /**
+     * Handle PerformanceTimeline.timelineEventAdded
+     */
+    async handleTimelineEvent(params: any, target?: TargetInfo, session?: CDPSender): Promise<void> {
+        const event = params.event;
+        if (!event) {
+            return;
+        }
+
+        if (event.type === 'largest-contentful-paint' && event.lcpDetails) {
+            const lcp = event.lcpDetails;
+            const element = lcp.url ? `image ${lcp.url}` : lcp.elementId ? `#${lcp.elementId}` : 'text';
+            // renderTime is wall-clock seconds - DevTools shows LCP relative to the document's time origin
+            const renderTime = (lcp.renderTime || lcp.loadTime) * 1000;
+            const timeOrigin = await this.timeOrigin(session);
+            const time = timeOrigin ? this.formatMs(renderTime - timeOrigin) : new Date(renderTime).toISOString();
+            this.write('lcp', `Largest Contentful Paint: ${time} (${element}, ${lcp.size}px²)`, target);
+        } else if (event.type === 'layout-shift' && event.layoutShiftDetails) {
+            const shift = event.layoutShiftDetails;
+            if (shift.hadRecentInput || shift.value < this.options.layoutShiftThreshold) {
+                return;  // Shifts right after user input do not count towards CLS, tiny ones are noise
+            }
+            const sources = (shift.sources || []).map((source: any) =>
+                `  node ${source.nodeId}: ${this.formatRect(source.previousRect)} → ${this.formatRect(source.currentRect)}`
+            );
+            this.write('layout-shift', [`Layout shift: score ${shift.value.toFixed(4)}`, ...sources].join('\n'), target);
+        } else if (event.type === 'longtask') {
+            this.write('long-task', `Long task: ${this.formatMs((event.duration || 0) * 1000)}`, target);
+        }
+    }
+
+    /**
+     * Handle Log.entryAdded entries with source "violation"
+     */
+    handleViolation(params: any, target?: TargetInfo): void {
+        const entry = params.entry;
+        let location = '';
+        if (entry.url && entry.lineNumber !== undefined) {
+            const resolved = this.sourceMaps?.resolveLocation(entry.url, entry.lineNumber, entry.columnNumber || 0, entry.scriptId);
+            const fileName = resolved?.sourcePath || entry.url.split('/').pop();
+            location = ` (${fileName}:${(resolved?.lineNumber ?? entry.lineNumber) + 1})`;
+        }
+
+        // Chrome prefixes the text with "[Violation] " - the entry label already says so
+        this.write('violation', `${(entry.text || '').replace(/^\[Violation\]\s*/, '')}${location}`, target);
+    }
+
+    private async sample(session: CDPSender): Promise<void> {
+        let metrics: { name: string; value: number }[];
+        try {
+            metrics = (await session.send('Performance.getMetrics')).metrics || [];
+        } catch {
+            this.stop();  // Page closed
+            return;
+        }
+
+        const values = new Map(metrics.map(metric => [metric.name, metric.value]));
+        const parts: string[] = [];
+        for (const metric of SAMPLED_METRICS) {
+            const value = values.get(metric.name);
+            if (value === undefined) {
+                continue;
+            }
+
+            let text = metric.bytes ? this.formatBytes(value) : String(Math.round(value));
+            const previous = this.lastMetrics.get(metric.name);
+            if (metric.counter && previous !== undefined && value !== previous) {
+                text += ` (+${Math.round(value - previous)})`;
+            }
+            parts.push(`${metric.label} ${text}`);
+        }
+
+        this.lastMetrics = values;
+        if (parts.length > 0) {
+            this.write('metrics', parts.join(' · '));
+        }
+    }
+
+    private write(kind: string, message: string, target?: TargetInfo): void {
+        this.logWriter.write({
+            type: 'performance',
+            kind,
+            message,
+            timestamp: Date.now(),
+            target
+        });
+    }
+
+    private async timeOrigin(session?: CDPSender): Promise<number | null> {
+        try {
+            const response = await session?.send('Runtime.evaluate', { expression: 'performance.timeOrigin', returnByValue: true });
+            return typeof response?.result?.value === 'number' ? response.result.value : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private formatMs(ms: number): string {
+        return ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`;
+    }
+
+    private formatBytes(bytes: number): string {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    private formatRect(rect: any): string {
+        return rect ? `${rect.x},${rect.y} ${rect.width}×${rect.height}` : '-';
+    }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { LogWriter, TargetInfo } from '../logWriter';
+import { CDPSender } from '../objectExpander';
+import { matchesUrlPattern } from '../urlPattern';
+
+export interface InterceptRule {
+    url: string;  // URL glob or /regex/
+    method?: string;  // Only requests with this HTTP method
+    status?: number;  // Respond with this status code instead of the server
+    file?: string;  // Respond with this file, relative to the project root
+    body?: string;  // Respond with this text
+    headers?: Record<string, string>;  // Extra response headers
+    delay?: number;  // ms to hold the request before it is answered or continues
+    abort?: boolean | string;  // Fail the request - true or a Network.ErrorReason such as "ConnectionRefused"
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.html': 'text/html',
+    '.js': 'text/javascript',
+    '.mjs': 'text/javascript',
+    '.css': 'text/css',
+    '.txt': 'text/plain',
+    '.xml': 'application/xml',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp'
+};
+
+/**
+ * Mocks, delays or fails requests matching the configured rules through the Fetch
+ * domain. Every intercepted request is logged, so failures in the log that were
+ * synthetic can be told apart from real ones.
+ */
+export class RequestInterceptor {
+    constructor(private logWriter: LogWriter, private rules: InterceptRule[], private baseDir: string = process.env.DEVMIRROR_PKG_PATH || process.cwd()) {}
+
+    /**
+     * Pause every request of the session - rules take regexes, which Fetch patterns cannot express
+     */
+    async enable(session: CDPSender): Promise<void> {
+        await session.send('Fetch.enable', { patterns: [{ urlPattern: '*', requestStage: 'Request' }] });
+    }
+
+    /**
+     * Handle Fetch.requestPaused - apply the first matching rule, let everything else through
+     */
+    async handleRequestPaused(event: any, session: CDPSender, target?: TargetInfo): Promise<void> {
+        const request = event.request;
+        const rule = this.rules.find(candidate => this.matches(candidate, request));
+        if (!rule) {
+            await session.send('Fetch.continueRequest', { requestId: event.requestId }).catch(() => {});
+            return;
+        }
+
+        try {
+            if (rule.delay) {
+                await new Promise(resolve => setTimeout(resolve, rule.delay));
+            }
+
+            if (rule.abort) {
+                const errorReason = typeof rule.abort === 'string' ? rule.abort : 'Failed';
+                await session.send('Fetch.failRequest', { requestId: event.requestId, errorReason });
+                this.write(request, `aborted (${errorReason})`, rule, target);
+            } else if (rule.status !== undefined || rule.file || rule.body !== undefined) {
+                const status = rule.status ?? 200;
+                const { body, contentType } = await this.responseBody(rule);
+                const headers = { 'Content-Type': contentType, ...rule.headers };
+                await session.send('Fetch.fulfillRequest', {
+                    requestId: event.requestId,
+                    responseCode: status,
+                    responseHeaders: Object.entries(headers).map(([name, value]) => ({ name, value })),
+                    body: body.toString('base64')
+                });
+                this.write(request, `${status}${rule.file ? ` from ${rule.file}` : ''}`, rule, target);
+            } else {
+                await session.send('Fetch.continueRequest', { requestId: event.requestId });
+                this.write(request, 'continued', rule, target);
+            }
+        } catch (error: any) {
+            console.log(`   ⚠️ Intercept rule ${rule.url} failed for ${request.url}: ${error.message}`);
+            await session.send('Fetch.continueRequest', { requestId: event.requestId }).catch(() => {});
+        }
+    }
+
+    private matches(rule: InterceptRule, request: any): boolean {
+        if (rule.method && rule.method.toUpperCase() !== request.method) {
+            return false;
+        }
+        return matchesUrlPattern(request.url, rule.url);
+    }
+
+    /**
+     * The file is read on every request, so fixtures can be edited while capturing
+     */
+    private async responseBody(rule: InterceptRule): Promise<{ body: Buffer; contentType: string }> {
+        if (rule.file) {
+            const filePath = path.resolve(this.baseDir, rule.file);
+            return {
+                body: await fs.readFile(filePath),
+                contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream'
+            };
+        }
+
+        const body = rule.body ?? '';
+        const isJson = /^\s*[[{]/.test(body);
+        return { body: Buffer.from(body), contentType: isJson ? 'application/json' : 'text/plain' };
+    }
+
+    private write(request: any, outcome: string, rule: InterceptRule, target?: TargetInfo): void {
+        const delay = rule.delay ? ` after ${rule.delay}ms` : '';
+        this.logWriter.write({
+            type: 'network',
+            kind: 'intercept',
+            message: `${request.method} ${request.url} → ${outcome}${delay} (synthetic, rule: ${rule.url})`,
+            timestamp: Date.now(),
+            target
+        });
+    }
+}
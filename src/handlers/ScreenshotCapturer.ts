@@ -0,0 +1,62 @@
+import * as fs from 'fs/promises';
+import { CDPSender } from '../objectExpander';
+
+export interface ScreenshotOptions {
+    minInterval: number;  // ms between two screenshots - errors in between get none
+    maxPerSession: number;  // Hard cap so an error loop cannot fill the disk
+    format: 'png' | 'jpeg';
+    quality: number;  // jpeg only, 0-100
+}
+
+export const DEFAULT_SCREENSHOT_OPTIONS: ScreenshotOptions = {
+    minInterval: 5000,
+    maxPerSession: 50,
+    format: 'png',
+    quality: 80
+};
+
+/**
+ * Saves a Page.captureScreenshot image next to the session log when an error fires.
+ * The file name is decided up front so the error entry can reference it while the
+ * capture itself finishes in the background.
+ */
+export class ScreenshotCapturer {
+    private options: ScreenshotOptions;
+    private lastCapture = 0;
+    private count = 0;
+
+    constructor(private logPath: string, options?: Partial<ScreenshotOptions>) {
+        this.options = { ...DEFAULT_SCREENSHOT_OPTIONS, ...options };
+    }
+
+    /**
+     * Start a capture unless rate-limited. Returns the path the image will be written to.
+     */
+    capture(session: CDPSender): string | null {
+        const now = Date.now();
+        if (now - this.lastCapture < this.options.minInterval || this.count >= this.options.maxPerSession) {
+            return null;
+        }
+        this.lastCapture = now;
+        this.count++;
+
+        const extension = this.options.format === 'jpeg' ? 'jpg' : 'png';
+        const imagePath = this.logPath.replace(/\.log$/, '') + `-error-${this.count}.${extension}`;
+
+        this.save(session, imagePath);
+        return imagePath;
+    }
+
+    private async save(session: CDPSender, imagePath: string): Promise<void> {
+        try {
+            const { data } = await session.send('Page.captureScreenshot', {
+                format: this.options.format,
+                quality: this.options.format === 'jpeg' ? this.options.quality : undefined,
+                fromSurface: true
+            });
+            await fs.writeFile(imagePath, Buffer.from(data, 'base64'));
+        } catch (error: any) {
+            console.log(`   ⚠️ Could not capture screenshot: ${error.message}`);
+        }
+    }
+}
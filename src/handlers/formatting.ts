@@ -0,0 +1,31 @@
+/**
+ * Text formatting shared by the event handlers so console objects and
+ * network payloads read the same way in the log.
+ */
+
+/**
+ * Pretty-print text that holds a JSON object or array, or return null if it doesn't
+ */
+export function formatJsonText(text: string): string | null {
+    const trimmed = text.trim();
+    if (!((trimmed.startsWith('{') && trimmed.endsWith('}')) ||
+          (trimmed.startsWith('[') && trimmed.endsWith(']')))) {
+        return null;
+    }
+
+    try {
+        return JSON.stringify(JSON.parse(trimmed), null, 2);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cut text down to maxLength characters, noting how much was dropped
+ */
+export function truncateText(text: string, maxLength: number): string {
+    if (maxLength <= 0 || text.length <= maxLength) {
+        return text;
+    }
+    return `${text.substring(0, maxLength)}… (${text.length - maxLength} more chars)`;
+}
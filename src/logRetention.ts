@@ -0,0 +1,214 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { pipeline } from 'stream/promises';
+
+export interface RetentionPolicy {
+    maxSessions?: number;
+    maxAgeDays?: number;
+    maxTotalBytes?: number;
+    compress?: boolean;
+}
+
+export interface CleanupResult {
+    removed: number;  // Sessions deleted
+    freedBytes: number;
+    compressed: number;  // Files gzipped
+}
+
+interface Session {
+    id: string;
+    files: string[];
+    size: number;
+    lastModified: number;
+    pinned: boolean;
+}
+
+// Every file of a session starts with its timestamp: .log, .jsonl, .har, -error-1.png, .pinned...
+const SESSION_FILE = /^(\d{4}-\d{2}-\d{2}-\d{6})/;
+const COMPRESSIBLE = ['.log', '.jsonl', '.har'];
+const PIN_EXTENSION = '.pinned';
+const DAY = 24 * 60 * 60 * 1000;
+const LIVE_WINDOW = 60000;  // Written to this recently - may be another capture's active session
+
+/**
+ * Session id (its timestamp, e.g. 2025-09-24-143052) of a file in the log directory
+ */
+export function sessionIdOf(filePath: string): string | null {
+    return path.basename(filePath).match(SESSION_FILE)?.[1] || null;
+}
+
+/**
+ * Keeps the log directory bounded: gzips finished sessions and deletes the oldest ones
+ * past the configured limits. The active session and pinned sessions are never touched.
+ */
+export class LogRetention {
+    constructor(private outputDir: string, private policy: RetentionPolicy = {}) {}
+
+    async cleanup(activeSession?: string | null): Promise<CleanupResult> {
+        const result: CleanupResult = { removed: 0, freedBytes: 0, compressed: 0 };
+        const now = Date.now();
+        const isProtected = (session: Session) =>
+            session.id === activeSession || session.pinned || now - session.lastModified < LIVE_WINDOW;
+
+        // Count and age limits first, so nothing is compressed only to be deleted
+        let kept = activeSession ? 1 : 0;
+        for (const session of (await this.listSessions()).filter(session => !isProtected(session)).reverse()) {
+            const tooMany = this.policy.maxSessions !== undefined && kept >= this.policy.maxSessions;
+            const tooOld = this.policy.maxAgeDays !== undefined && now - session.lastModified > this.policy.maxAgeDays * DAY;
+            if (tooMany || tooOld) {
+                await this.remove(session, result);
+            } else {
+                kept++;
+            }
+        }
+
+        if (this.policy.compress !== false) {
+            for (const session of (await this.listSessions()).filter(session => !isProtected(session))) {
+                result.compressed += await this.compressFiles(session.files);
+            }
+        }
+
+        // The size limit counts what stays on disk - oldest sessions go first
+        if (this.policy.maxTotalBytes !== undefined) {
+            const sessions = await this.listSessions();
+            let totalBytes = sessions.reduce((sum, session) => sum + session.size, 0);
+            for (const session of sessions.filter(session => !isProtected(session))) {
+                if (totalBytes <= this.policy.maxTotalBytes) {
+                    break;
+                }
+                await this.remove(session, result);
+                totalBytes -= session.size;
+            }
+        }
+
+        return result;
+    }
+
+    private async remove(session: Session, result: CleanupResult): Promise<void> {
+        await Promise.all(session.files.map(file => fs.unlink(path.join(this.outputDir, file)).catch(() => {})));
+        result.removed++;
+        result.freedBytes += session.size;
+    }
+
+    /**
+     * Gzip the text files of a finished session or rotated part - returns how many were compressed
+     */
+    async compressSession(sessionId: string, fileNames?: string[]): Promise<number> {
+        if (await this.isPinned(sessionId)) {
+            return 0;
+        }
+        const session = (await this.listSessions()).find(candidate => candidate.id === sessionId);
+        const files = session?.files.filter(file => !fileNames || fileNames.includes(file)) || [];
+        return this.compressFiles(files);
+    }
+
+    async isPinned(sessionId: string): Promise<boolean> {
+        try {
+            await fs.access(path.join(this.outputDir, sessionId + PIN_EXTENSION));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * isPinned for callers that cannot wait, such as the rotation header naming the previous part
+     */
+    isPinnedSync(sessionId: string): boolean {
+        return existsSync(path.join(this.outputDir, sessionId + PIN_EXTENSION));
+    }
+
+    /**
+     * Pinned sessions are kept uncompressed and never deleted - marked by a <session>.pinned file
+     */
+    async setPinned(sessionId: string, pinned: boolean): Promise<void> {
+        const marker = path.join(this.outputDir, sessionId + PIN_EXTENSION);
+        if (pinned) {
+            await fs.writeFile(marker, '', 'utf8');
+        } else {
+            await fs.unlink(marker).catch(() => {});
+        }
+    }
+
+    private async listSessions(): Promise<Session[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.outputDir);
+        } catch {
+            return [];
+        }
+
+        const sessions = new Map<string, Session>();
+        for (const name of names.sort()) {
+            const id = sessionIdOf(name);
+            if (!id) {
+                continue;
+            }
+
+            let stat;
+            try {
+                stat = await fs.lstat(path.join(this.outputDir, name));
+            } catch {
+                continue;  // Deleted meanwhile
+            }
+            if (!stat.isFile()) {
+                continue;
+            }
+
+            let session = sessions.get(id);
+            if (!session) {
+                session = { id, files: [], size: 0, lastModified: 0, pinned: false };
+                sessions.set(id, session);
+            }
+            session.files.push(name);
+            session.size += stat.size;
+            session.lastModified = Math.max(session.lastModified, stat.mtimeMs);
+            if (name === id + PIN_EXTENSION) {
+                session.pinned = true;
+            }
+        }
+
+        return Array.from(sessions.values());  // Oldest first - ids are timestamps
+    }
+
+    private async compressFiles(files: string[]): Promise<number> {
+        let compressed = 0;
+        for (const file of files) {
+            if (!COMPRESSIBLE.includes(path.extname(file))) {
+                continue;
+            }
+
+            const source = path.join(this.outputDir, file);
+            try {
+                const stat = await fs.stat(source);
+                await pipeline(createReadStream(source), zlib.createGzip(), createWriteStream(source + '.gz'));
+                // Keep the original time, so max age still means time since the session was written
+                await fs.utimes(source + '.gz', stat.atime, stat.mtime);
+                await fs.unlink(source);
+                await this.repointCurrent(file);
+                compressed++;
+            } catch (error: any) {
+                await fs.unlink(source + '.gz').catch(() => {});
+                console.log(`⚠️ Could not compress ${file}: ${error.message}`);
+            }
+        }
+        return compressed;
+    }
+
+    /**
+     * current.log / current.jsonl must not dangle once the file they point at is gzipped
+     */
+    private async repointCurrent(file: string): Promise<void> {
+        const pointer = path.join(this.outputDir, `current${path.extname(file)}`);
+        try {
+            if (await fs.readlink(pointer) === file) {
+                await fs.unlink(pointer);
+                await fs.symlink(file + '.gz', pointer);
+            }
+        } catch {
+            // No pointer, or not a symlink (Windows)
+        }
+    }
+}
@@ -1,26 +1,123 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { createWriteStream, WriteStream } from 'fs';
+import { performance } from 'perf_hooks';
 import { DevMirrorConfig } from './configHandler';
+import { LogSink, SinkConfig } from './sinks/LogSink';
+import { FileSink } from './sinks/FileSink';
+import { StdoutSink } from './sinks/StdoutSink';
+import { HttpSink } from './sinks/HttpSink';
+import { SocketSink } from './sinks/SocketSink';
+import { formatText, levelOf } from './sinks/formatters';
+import { LogRetention, sessionIdOf } from './logRetention';
+
+/**
+ * The CDP target an entry came from (page, iframe, worker, service_worker...)
+ */
+export interface TargetInfo {
+    type: string;
+    url?: string;
+    title?: string;  // Shown instead of the script name, e.g. an Electron window title
+    id?: string;  // Short id telling tabs apart
+    targetId?: string;  // CDP target id of a child target - unique where the URL is not
+}
+
+/**
+ * Where an entry sits in console.group() nesting. Group headers carry an id;
+ * entries inside a group reference the innermost open group as parentId.
+ */
+export interface GroupInfo {
+    depth: number;
+    parentId?: number;
+    id?: number;
+    collapsed?: boolean;
+}
+
+/**
+ * CSS applied with %c to a range of an entry's message. Only kept as metadata -
+ * the text log itself is unstyled.
+ */
+export interface ConsoleStyle {
+    offset: number;
+    length: number;
+    css: string;
+}
+
+/**
+ * A call frame as CDP reports it (0-based line and column), after source map resolution
+ */
+export interface StackFrame {
+    functionName?: string;
+    url?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+    sourcePath?: string;  // Workspace file the frame was mapped back to
+}
 
 export interface LogEntry {
-    type: 'console' | 'error' | 'network' | 'browser' | 'lifecycle' | 'suppressed' | 'debug';
+    type: 'console' | 'error' | 'network' | 'browser' | 'lifecycle' | 'suppressed' | 'debug' | 'issue' | 'performance' | 'dialog';
     method?: string;
     level?: string;
     message: string;
     stack?: any;
+    frames?: StackFrame[];  // Structured stack for the JSONL log when `stack` is already formatted text
+    args?: any[];  // Raw console arguments (CDP RemoteObjects) for the JSONL log
     url?: string;
     source?: string;
     timestamp: number;
+    monotonic?: number;  // ms since DevMirror started, never jumps - stamped by the writer
     count?: number;
+    target?: TargetInfo;
+    kind?: string;  // Sub-kind of network (websocket...), issue (cors, csp...), performance (lcp, violation...) and dialog (alert, confirm...) entries
+    group?: GroupInfo;
+    styles?: ConsoleStyle[];
+    screenshot?: string;  // Image saved when the error fired
+    segment?: number;  // Page load (reload segment) the entry belongs to - stamped by the writer
+}
+
+/**
+ * Entry counts for the session, used for the CI run summary
+ */
+export interface LogStats {
+    entries: number;
+    errors: number;  // Uncaught exceptions, console.error/assert and failed requests
+    warnings: number;
+    byType: Record<string, number>;
+}
+
+/**
+ * A sink with its filter and failure state
+ */
+interface SinkHandle {
+    sink: LogSink;
+    config: SinkConfig;
+    matches: (message: string) => boolean;
+    lastErrorAt: number;
+}
+
+const LEVEL_RANK: Record<string, number> = { debug: 0, verbose: 0, info: 1, warning: 2, error: 3 };
+const SINK_ERROR_INTERVAL = 60000;  // Report a failing sink at most once a minute
+
+/**
+ * ms since DevMirror started - unlike Date.now() it never jumps, so it orders entries
+ */
+function monotonicNow(): number {
+    return Math.round(performance.now() * 1000) / 1000;
 }
 
 export class LogWriter {
-    private writeStream: WriteStream | null = null;
+    private sinks: SinkHandle[] = [];
+    private retention!: LogRetention;
     private currentLogPath: string = '';
+    private sessionBase: string = '';  // <outputDir>/<timestamp> - every part of the session starts with it
+    private part: number = 1;
     private logSize: number = 0;
+    private entriesInPart: number = 0;  // Captured entries, not counting markers
+    private rotationTimer: NodeJS.Timeout | null = null;
+    private pendingRotation: Promise<void> = Promise.resolve();
     private readonly MAX_LOG_SIZE = 50 * 1024 * 1024; // 50MB
     private config?: DevMirrorConfig;
+    private stats: LogStats = { entries: 0, errors: 0, warnings: 0, byType: {} };
+    private segment: number = 0;  // 0 until the first page load is seen
 
     constructor(private outputDir: string, config?: DevMirrorConfig) {
         this.config = config;
@@ -33,13 +130,24 @@ export class LogWriter {
             console.error('Failed to create output directory:', error);
         }
 
-        await this.createNewLogFile();
-    }
-
-    private async createNewLogFile(): Promise<void> {
-        if (this.writeStream) {
-            this.writeStream.end();
-        }
+        this.sinks = this.sinkConfigs().flatMap(config => {
+            let matches: (message: string) => boolean;
+            try {
+                matches = this.messageMatcher(config.match);
+            } catch (error: any) {
+                // A bad filter disables its own sink, not the capture
+                console.log(`⚠️ Log sink ${config.type} disabled: ${error.message}`);
+                return [];
+            }
+            const handle: SinkHandle = {
+                sink: this.createSink(config, error => this.sinkFailed(handle, error)),
+                config,
+                matches,
+                lastErrorAt: 0
+            };
+            return [handle];
+        });
+        this.retention = new LogRetention(this.outputDir, this.config?.retention);
 
         const date = new Date();
         // Format filename: YYYY-MM-DD-HHMMSS.log (local time)
@@ -51,160 +159,260 @@ export class LogWriter {
         const seconds = String(date.getSeconds()).padStart(2, '0');
 
         const timestamp = `${year}-${month}-${day}-${hours}${minutes}${seconds}`;
-        this.currentLogPath = path.join(this.outputDir, `${timestamp}.log`);
-        this.writeStream = createWriteStream(this.currentLogPath, { flags: 'a' });
-        this.logSize = 0;
-
-        const currentSymlink = path.join(this.outputDir, 'current.log');
-        try {
-            await fs.unlink(currentSymlink);
-        } catch {}
-
-        try {
-            await fs.symlink(path.basename(this.currentLogPath), currentSymlink);
-        } catch (error) {
-            console.log('Could not create symlink (may not be supported on Windows)');
-        }
+        this.sessionBase = path.join(this.outputDir, timestamp);
+        this.currentLogPath = `${this.sessionBase}.log`;
+        await this.openSinks(this.sessionBase);
 
         this.write({
             type: 'lifecycle',
             message: '════════════ DevMirror Session Started ════════════',
             timestamp: Date.now()
         });
-    }
 
-    write(entry: LogEntry): void {
-        if (!this.writeStream) {
-            this.initialize();
-            return;
+        const interval = this.config?.rotation?.interval;
+        if (interval) {
+            this.rotationTimer = setInterval(() => {
+                if (this.entriesInPart > 0) {
+                    this.rotate(`${interval} min interval`);
+                }
+            }, interval * 60 * 1000);
+            this.rotationTimer.unref();
         }
 
+        // Old sessions are compressed and pruned in the background - capture starts right away
+        this.retention.cleanup(sessionIdOf(this.currentLogPath)).then(result => {
+            if (result.removed > 0 || result.compressed > 0) {
+                const freed = (result.freedBytes / 1024 / 1024).toFixed(1);
+                console.log(`🧹 Log cleanup: removed ${result.removed} old session${result.removed === 1 ? '' : 's'} (${freed} MB), compressed ${result.compressed} file${result.compressed === 1 ? '' : 's'}`);
+            }
+        }).catch(error => console.log(`⚠️ Log cleanup failed: ${error.message}`));
+    }
 
-        const formattedEntry = this.formatEntry(entry);
-        const entrySize = Buffer.byteLength(formattedEntry);
+    /**
+     * The text log is always written - a "file" entry in config.sinks only sets its filter.
+     * jsonl.enabled is shorthand for a "jsonl" sink.
+     */
+    private sinkConfigs(): SinkConfig[] {
+        const configured = this.config?.sinks || [];
+        const configs: SinkConfig[] = [configured.find(sink => sink.type === 'file') || { type: 'file' }];
+        if (this.config?.jsonl?.enabled && !configured.some(sink => sink.type === 'jsonl')) {
+            configs.push({ type: 'jsonl', includeArgs: this.config.jsonl.includeArgs });
+        }
+        return configs.concat(configured.filter(sink => sink.type !== 'file'));
+    }
 
-        if (this.logSize + entrySize > this.MAX_LOG_SIZE) {
-            this.createNewLogFile();
+    private createSink(config: SinkConfig, report: (error: Error) => void): LogSink {
+        switch (config.type) {
+            case 'file':
+                return new FileSink('log', report);
+            case 'jsonl':
+                return new FileSink('jsonl', report, config.includeArgs !== false);
+            case 'stdout':
+                return new StdoutSink(config.colors);
+            case 'http':
+                return new HttpSink(config.url, report, config.headers, config.batchInterval);
+            case 'socket':
+                return new SocketSink(config.path, report);
         }
+    }
 
-        this.writeStream.write(formattedEntry + '\n');
-        this.logSize += entrySize;
+    /**
+     * `match` is plain text to look for, or a /regex/. Throws if the regex does not compile.
+     */
+    private messageMatcher(match?: string): (message: string) => boolean {
+        if (!match) {
+            return () => true;
+        }
+        const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+        if (regex) {
+            const pattern = new RegExp(regex[1], regex[2]);
+            return message => pattern.test(message);
+        }
+        return message => message.includes(match);
     }
 
-    private formatEntry(entry: LogEntry): string {
-        const date = new Date(entry.timestamp);
+    /**
+     * Point the file sinks at new files. The streams switch before this returns; the promise
+     * resolves once the previous files are completely written.
+     */
+    private openSinks(basePath: string): Promise<void> {
+        return Promise.all(this.sinks.map(async handle => {
+            try {
+                await handle.sink.open?.(basePath);
+            } catch (error: any) {
+                this.sinkFailed(handle, error);
+            }
+        })).then(() => {});
+    }
 
-        // Format: yymmddThh:mm:ss.ms (two digit milliseconds)
-        const year = String(date.getFullYear()).slice(-2);  // Last 2 digits of year
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        const hours = String(date.getHours()).padStart(2, '0');
-        const minutes = String(date.getMinutes()).padStart(2, '0');
-        const seconds = String(date.getSeconds()).padStart(2, '0');
-        const ms = String(Math.floor(date.getMilliseconds() / 10)).padStart(2, '0'); // Two digits (00-99)
-
-        const timestamp = `${year}${month}${day}T${hours}:${minutes}:${seconds}.${ms}`;
-        const prefix = `[${timestamp}]`;
-
-        let typeLabel = entry.type.toUpperCase();
-        if (entry.type === 'console' && entry.method) {
-            // User console calls - use the method name (log, warn, error, etc.)
-            typeLabel = entry.method.toUpperCase();
-        } else if (entry.type === 'console' && entry.source) {
-            // Browser-generated console messages - show source
-            typeLabel = `[${entry.source.toUpperCase()}]`;
-        } else if (entry.type === 'error' && entry.source === 'vite') {
-            // Vite-specific errors - distinctive formatting
-            typeLabel = '🔥 VITE';
-        } else if (entry.type === 'network') {
-            typeLabel = 'NETWORK:ERROR';
-        } else if (entry.type === 'browser' && entry.level) {
-            typeLabel = `BROWSER:${entry.level.toUpperCase()}`;
-        }
-
-        // Handle multi-line messages with proper indentation
-        const logPrefix = `${prefix} [${typeLabel}] `;
-        const prefixLength = logPrefix.length;
-
-        // Split the message into lines and indent continuation lines
-        const messageLines = entry.message.split('\n');
-        const indentedMessage = messageLines.map((line, index) => {
-            if (index === 0) {
-                return line;  // First line stays as-is
+    /**
+     * Continue the session in the next part (<session>-part2.log, ...). A trailer ends the
+     * old part and a header starts the new one; both are written around the switch, so no
+     * entry lands between them or out of order.
+     */
+    private rotate(reason: string, nextSegment?: number): void {
+        const previousLogPath = this.currentLogPath;
+        // compressSession leaves pinned sessions alone - the header must not name a .gz that never appears
+        const compress = this.config?.retention?.compress !== false && !this.retention.isPinnedSync(sessionIdOf(previousLogPath)!);
+        this.part++;
+        const basePath = `${this.sessionBase}-part${this.part}`;
+        this.currentLogPath = `${basePath}.log`;
+
+        this.dispatch(this.marker(`════════════ Continued in ${path.basename(this.currentLogPath)} (${reason}) ════════════`));
+        const opened = this.openSinks(basePath);
+        this.logSize = 0;
+        this.entriesInPart = 0;
+        if (nextSegment !== undefined) {
+            this.segment = nextSegment;
+        }
+
+        const previousName = path.basename(previousLogPath) + (compress ? '.gz' : '');
+        this.dispatch(this.marker(
+            `════════════ DevMirror Session Continued (part ${this.part}) ════════════\n` +
+            `Previous part: ${previousName} - rotated on ${reason}`
+        ));
+
+        // The previous part is complete once its streams finished
+        this.pendingRotation = this.pendingRotation.then(() => opened).then(async () => {
+            if (compress) {
+                const previousBase = path.basename(previousLogPath, '.log');
+                await this.retention.compressSession(sessionIdOf(previousLogPath)!, [`${previousBase}.log`, `${previousBase}.jsonl`]);
             }
-            // Indent continuation lines to align with the start of the message
-            return ' '.repeat(prefixLength) + line;
-        }).join('\n');
+        }).catch(error => console.log(`⚠️ Could not compress ${path.basename(previousLogPath)}: ${error.message}`));
+    }
 
-        let message = logPrefix + indentedMessage;
+    private marker(message: string): LogEntry {
+        return { type: 'lifecycle', message, timestamp: Date.now(), monotonic: monotonicNow(), segment: this.segment || undefined };
+    }
+
+    getCurrentLogPath(): string {
+        return this.currentLogPath;
+    }
 
-        if (entry.count && entry.count > 1) {
-            message += ` (×${entry.count})`;
+    /**
+     * Start a new reload segment - every entry written from now on carries its number
+     */
+    setSegment(segment: number): void {
+        if (this.config?.rotation?.onReload && this.segment > 0 && segment !== this.segment && this.entriesInPart > 0) {
+            this.rotate(`page reload #${segment}`, segment);
+            return;
         }
+        this.segment = segment;
+    }
+
+    getSegment(): number {
+        return this.segment;
+    }
+
+    getStats(): LogStats {
+        return { ...this.stats, byType: { ...this.stats.byType } };
+    }
 
-        if (entry.url) {
-            message += `\n    URL: ${entry.url}`;
+    write(entry: LogEntry): void {
+        if (this.sinks.length === 0) {
+            this.initialize();
+            return;
         }
 
-        // Source is now included in typeLabel, no need to duplicate it
 
-        if (entry.stack) {
-            const stackTrace = this.formatStackTrace(entry.stack);
-            if (stackTrace) {
-                message += `\n${stackTrace}`;
-            }
+        if (entry.segment === undefined && this.segment > 0) {
+            entry.segment = this.segment;
         }
+        // Taken now - sinks may format the entry much later
+        entry.monotonic ??= monotonicNow();
 
-        return message;
+        this.count(entry);
+        const formattedEntry = formatText(entry);
+
+        // An entry larger than the limit still gets written - into a part of its own
+        const maxSize = this.config?.rotation?.maxSize ?? this.MAX_LOG_SIZE;
+        if (maxSize > 0 && this.entriesInPart > 0 && this.logSize + Buffer.byteLength(formattedEntry) > maxSize) {
+            const limit = maxSize >= 1024 * 1024 ? `${+(maxSize / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(maxSize / 1024)} KB`;
+            this.rotate(`size limit ${limit}`);
+        }
+
+        this.dispatch(entry, formattedEntry);
     }
 
-    private formatStackTrace(stack: any): string {
-        if (!stack) return '';
+    private dispatch(entry: LogEntry, formattedEntry: string = formatText(entry)): void {
+        this.logSize += Buffer.byteLength(formattedEntry) + 1;
+        if (entry.type !== 'lifecycle') {
+            this.entriesInPart++;
+        }
 
-        if (typeof stack === 'string') {
-            // If the stack is already formatted (contains "at " patterns), use as-is
-            // Otherwise add indentation
-            if (stack.includes('    at ') || stack.includes('\tat ')) {
-                return stack;
+        for (const handle of this.sinks) {
+            if (!this.accepts(handle, entry)) {
+                continue;
+            }
+            try {
+                handle.sink.write(entry, formattedEntry);
+            } catch (error: any) {
+                this.sinkFailed(handle, error);
             }
-            return stack.split('\n')
-                .map(line => `    ${line}`)
-                .join('\n');
         }
+    }
 
-        if (Array.isArray(stack)) {
-            return stack
-                .map(frame => {
-                    if (frame.functionName && frame.url && frame.lineNumber) {
-                        return `    at ${frame.functionName} (${frame.url}:${frame.lineNumber}:${frame.columnNumber || 0})`;
-                    }
-                    return `    at ${frame.url || 'unknown'}`;
-                })
-                .join('\n');
+    private accepts(handle: SinkHandle, entry: LogEntry): boolean {
+        const { level, types } = handle.config;
+        if (level && (LEVEL_RANK[levelOf(entry)] ?? LEVEL_RANK.info) < LEVEL_RANK[level]) {
+            return false;
         }
+        if (types && !types.includes(entry.type)) {
+            return false;
+        }
+        return handle.matches(entry.message);
+    }
 
-        if (stack.callFrames && Array.isArray(stack.callFrames)) {
-            return this.formatStackTrace(stack.callFrames);
+    /**
+     * A broken sink is reported and keeps getting entries - it may recover (endpoint restarted)
+     */
+    private sinkFailed(handle: SinkHandle, error: Error): void {
+        const now = Date.now();
+        if (now - handle.lastErrorAt < SINK_ERROR_INTERVAL) {
+            return;
         }
+        handle.lastErrorAt = now;
+        console.log(`⚠️ Log sink ${handle.sink.name} failed: ${error.message} - capture continues`);
+    }
 
-        return '';
+    private count(entry: LogEntry): void {
+        // Markers and DevMirror's own output are not captured entries
+        if (entry.type === 'lifecycle' || entry.type === 'debug' || entry.type === 'suppressed') {
+            return;
+        }
+
+        this.stats.entries++;
+        this.stats.byType[entry.type] = (this.stats.byType[entry.type] || 0) + 1;
+        const level = levelOf(entry);
+        if (level === 'error') {
+            this.stats.errors++;
+        } else if (level === 'warning') {
+            this.stats.warnings++;
+        }
     }
 
     async close(): Promise<void> {
-        if (this.writeStream) {
+        if (this.rotationTimer) {
+            clearInterval(this.rotationTimer);
+            this.rotationTimer = null;
+        }
+
+        if (this.sinks.length > 0) {
             this.write({
                 type: 'lifecycle',
                 message: '════════════ DevMirror Session Ended ════════════',
                 timestamp: Date.now()
             });
 
-            return new Promise((resolve) => {
-                if (this.writeStream) {
-                    this.writeStream.end(() => resolve());
-                } else {
-                    resolve();
-                }
-            });
+            await this.pendingRotation;
+            await Promise.all(this.sinks.map(handle => handle.sink.close().catch(error => this.sinkFailed(handle, error))));
+
+            // The session is finished - pinned ones are skipped by compressSession
+            if (this.config?.retention?.compress !== false) {
+                const sessionId = sessionIdOf(this.currentLogPath)!;
+                await this.retention.compressSession(sessionId)
+                    .catch(error => console.log(`⚠️ Could not compress session ${sessionId}: ${error.message}`));
+            }
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,128 @@
+import * as http from 'http';
+import { CDPConnection, CDPSession } from './cdpConnection';
+
+export interface NodeInspectorOptions {
+    host: string;
+    port: number;
+    wsEndpoint?: string;  // Skip discovery on the first connect and go to this inspector URL directly
+    reconnectInterval: number;  // ms between attempts while the process is down
+}
+
+/**
+ * Connects to a `node --inspect` process (dev server, SSR, API routes) and hands each
+ * inspector session to `onSession`. Dev servers restart all the time, so the connection
+ * is re-established whenever the process comes back.
+ */
+export class NodeInspector {
+    private connection: CDPConnection | null = null;
+    private retryTimer: NodeJS.Timeout | null = null;
+    private closed = false;
+    private connected = false;
+    private restarted = false;  // The process went away once - a configured wsEndpoint is stale now
+
+    constructor(
+        private options: NodeInspectorOptions,
+        private onSession: (session: CDPSession, title: string) => Promise<void>,
+        private onDisconnect: () => void
+    ) {}
+
+    async connect(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+
+        try {
+            const target = await this.discover();
+            await this.open(target.webSocketDebuggerUrl, target.title);
+        } catch {
+            this.scheduleRetry();
+        }
+    }
+
+    close(): void {
+        this.closed = true;
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        if (this.connection) {
+            this.connection.removeAllListeners('close');
+            this.connection.close();
+            this.connection = null;
+        }
+    }
+
+    private async open(wsUrl: string, title: string): Promise<void> {
+        const connection = await CDPConnection.connect(wsUrl);
+        this.connection = connection;
+        this.connected = true;
+
+        connection.on('close', () => {
+            this.connection = null;
+            if (this.connected) {
+                this.connected = false;
+                this.restarted = true;
+                this.onDisconnect();
+            }
+            this.scheduleRetry();
+        });
+
+        try {
+            await this.onSession(connection.root, title);
+        } catch (error: any) {
+            console.log(`   ⚠️ Could not enable capture for the Node.js process: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find the inspector target - /json/list on the inspect port, asked again on every attempt
+     * since a restarted process gets a new id. A configured endpoint is used as is until the
+     * process restarts; after that its host and port are asked instead.
+     */
+    private async discover(): Promise<{ webSocketDebuggerUrl: string; title: string }> {
+        const endpoint = this.options.wsEndpoint;
+        if (endpoint && !this.restarted) {
+            return { webSocketDebuggerUrl: endpoint, title: 'node' };
+        }
+
+        let host = this.options.host;
+        let port = this.options.port;
+        if (endpoint) {
+            const url = new URL(endpoint);
+            host = url.hostname;
+            port = Number(url.port) || port;
+        }
+
+        const targets = await new Promise<any[]>((resolve, reject) => {
+            const req = http.get({ host, port, path: '/json/list', timeout: 2000 }, res => {
+                let body = '';
+                res.on('data', chunk => body += chunk);
+                res.on('end', () => {
+                    try {
+                        resolve(JSON.parse(body));
+                    } catch (error) {
+                        reject(error);
+                    }
+                });
+            });
+            req.on('error', reject);
+            req.on('timeout', () => req.destroy(new Error('Inspector discovery timed out')));
+        });
+
+        const target = targets.find(t => t.webSocketDebuggerUrl);
+        if (!target) {
+            throw new Error('No inspector target');
+        }
+        return target;
+    }
+
+    private scheduleRetry(): void {
+        if (this.closed || this.retryTimer) {
+            return;
+        }
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.connect();
+        }, this.options.reconnectInterval);
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * Anything that can send CDP commands - a puppeteer CDPSession or the CEF WebSocket client
+ */
+export interface CDPSender {
+    send(method: string, params?: any): Promise<any>;
+}
+
+export interface ObjectExpansionOptions {
+    maxDepth: number;  // Nesting levels to walk below each console argument
+    maxBreadth: number;  // Properties/items per object before "... more items"
+    maxBytes: number;  // Approximate serialized size budget per console call
+    invokeGetters: boolean;  // Evaluate accessor properties instead of showing [Getter]
+}
+
+export const DEFAULT_EXPANSION_OPTIONS: ObjectExpansionOptions = {
+    maxDepth: 5,
+    maxBreadth: 100,
+    maxBytes: 64 * 1024,
+    invokeGetters: false
+};
+
+// Runs in the page with an object as `this` and its ancestors as arguments
+const ANCESTOR_INDEX_FN = 'function() { return Array.prototype.indexOf.call(arguments, this); }';
+const GETTER_FN = 'function(name) { return this[name]; }';
+
+/**
+ * Expands console arguments beyond the CDP preview depth by walking objectIds with
+ * Runtime.getProperties. Produces plain JSON-able values so they go through the same
+ * JSON formatting as preview-built objects.
+ */
+export class ObjectExpander {
+    private bytesUsed = 0;
+    private options: ObjectExpansionOptions;
+
+    constructor(private client: CDPSender, options?: Partial<ObjectExpansionOptions>) {
+        this.options = { ...DEFAULT_EXPANSION_OPTIONS, ...options };
+    }
+
+    /**
+     * Expand every object argument of a console call. Arguments that cannot be expanded
+     * are returned unchanged; expanded ones gain an `expanded` value.
+     */
+    async expandArguments(args: any[]): Promise<any[]> {
+        this.bytesUsed = 0;
+        const result: any[] = [];
+
+        for (const arg of args) {
+            if (!this.isExpandable(arg)) {
+                result.push(arg);
+                continue;
+            }
+
+            try {
+                result.push({ ...arg, expanded: await this.expand(arg, 0, []) });
+            } catch {
+                // Object was released or the target went away - fall back to the preview
+                result.push(arg);
+            }
+        }
+
+        return result;
+    }
+
+    private isExpandable(remote: any): boolean {
+        return remote?.type === 'object' && !!remote.objectId &&
+            !['null', 'node', 'regexp', 'date', 'error', 'promise', 'proxy', 'wasmvalue'].includes(remote.subtype);
+    }
+
+    private async expand(remote: any, depth: number, ancestors: string[]): Promise<any> {
+        if (!this.isExpandable(remote)) {
+            return this.leafValue(remote);
+        }
+
+        if (this.bytesUsed >= this.options.maxBytes) {
+            return '[Truncated]';
+        }
+
+        if (depth >= this.options.maxDepth) {
+            return `[${remote.description || remote.className || 'Object'}]`;
+        }
+
+        // objectIds are not stable across getProperties calls, so identity has to be checked in the page
+        if (ancestors.length > 0) {
+            const check = await this.client.send('Runtime.callFunctionOn', {
+                objectId: remote.objectId,
+                functionDeclaration: ANCESTOR_INDEX_FN,
+                arguments: ancestors.map(objectId => ({ objectId })),
+                returnByValue: true,
+                silent: true
+            });
+            if (check?.result?.value >= 0) {
+                return '[Circular]';
+            }
+        }
+
+        const response = await this.client.send('Runtime.getProperties', {
+            objectId: remote.objectId,
+            ownProperties: true,
+            generatePreview: false
+        });
+
+        const isArray = remote.subtype === 'array' || remote.subtype === 'typedarray';
+        const chain = [...ancestors, remote.objectId];
+
+        // Map/Set contents live in the [[Entries]] internal property
+        if (remote.subtype === 'map' || remote.subtype === 'set') {
+            const entries = (response.internalProperties || []).find((p: any) => p.name === '[[Entries]]');
+            if (entries?.value) {
+                return this.expand({ ...entries.value, subtype: 'array' }, depth, ancestors);
+            }
+        }
+
+        const properties = (response.result || []).filter((prop: any) =>
+            prop.enumerable !== false && !(isArray && prop.name === 'length')
+        );
+
+        const result: any = isArray ? [] : {};
+        let count = 0;
+
+        for (const prop of properties) {
+            if (count >= this.options.maxBreadth) {
+                result['...'] = `${properties.length - count} more items`;
+                break;
+            }
+            if (this.bytesUsed >= this.options.maxBytes) {
+                result['...'] = 'truncated (size limit)';
+                break;
+            }
+
+            const key = isArray && /^\d+$/.test(prop.name) ? parseInt(prop.name) : prop.name;
+            this.bytesUsed += String(prop.name).length + 4;
+
+            if (prop.value) {
+                result[key] = await this.expand(prop.value, depth + 1, chain);
+            } else if (prop.get && prop.get.type !== 'undefined') {
+                result[key] = await this.expandGetter(remote, prop, depth, chain);
+            } else {
+                result[key] = undefined;
+            }
+            count++;
+        }
+
+        return result;
+    }
+
+    private async expandGetter(owner: any, prop: any, depth: number, chain: string[]): Promise<any> {
+        const hasSetter = prop.set && prop.set.type !== 'undefined';
+        if (!this.options.invokeGetters) {
+            return hasSetter ? '[Getter/Setter]' : '[Getter]';
+        }
+
+        const response = await this.client.send('Runtime.callFunctionOn', {
+            objectId: owner.objectId,
+            functionDeclaration: GETTER_FN,
+            arguments: [{ value: prop.name }],
+            silent: true
+        });
+
+        if (response?.exceptionDetails) {
+            return `[Getter threw: ${response.result?.description || 'exception'}]`;
+        }
+        return this.expand(response.result, depth + 1, chain);
+    }
+
+    private leafValue(remote: any): any {
+        if (!remote) {
+            return undefined;
+        }
+
+        let value: any;
+        switch (remote.type) {
+            case 'undefined':
+                value = undefined;
+                break;
+            case 'string':
+            case 'number':
+            case 'boolean':
+                value = remote.value !== undefined ? remote.value : remote.unserializableValue || remote.description;
+                break;
+            case 'bigint':
+                value = `${remote.unserializableValue || remote.description}`;
+                break;
+            case 'function':
+                value = `[Function${remote.className ? `: ${remote.className}` : ''}]`;
+                break;
+            case 'object':
+                value = remote.subtype === 'null' ? null : remote.description || `[${remote.className || 'Object'}]`;
+                break;
+            default:
+                value = remote.description || `[${remote.type}]`;
+        }
+
+        this.bytesUsed += value === undefined ? 9 : String(value).length + 2;
+        return value;
+    }
+}
@@ -0,0 +1,73 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createWriteStream, WriteStream } from 'fs';
+import { finished } from 'stream/promises';
+import { LogEntry } from '../logWriter';
+import { LogSink, SinkErrorReporter } from './LogSink';
+import { formatJson } from './formatters';
+
+/**
+ * Session file next to the others in the output directory, with a current.<ext> symlink
+ * to the newest one. The text log and the JSONL log only differ in how a line is rendered.
+ */
+export class FileSink implements LogSink {
+    readonly name: string;
+    private stream: WriteStream | null = null;
+    private pointerUpdate: Promise<void> = Promise.resolve();
+
+    constructor(
+        private extension: 'log' | 'jsonl',
+        private report: SinkErrorReporter,
+        private includeArgs: boolean = true
+    ) {
+        this.name = extension === 'log' ? 'text log' : 'JSONL log';
+    }
+
+    /**
+     * Resolves once the previous file is completely written, so it can be compressed
+     */
+    async open(basePath: string): Promise<void> {
+        // The new stream exists before the first await, so entries written meanwhile are kept
+        const previous = this.stream;
+        const filePath = `${basePath}.${this.extension}`;
+        this.stream = createWriteStream(filePath, { flags: 'a' });
+        this.stream.on('error', this.report);
+        previous?.end();
+
+        // One update at a time - rotations in quick succession would race on the symlink
+        this.pointerUpdate = this.pointerUpdate.then(() => this.pointCurrent(filePath));
+        await this.pointerUpdate;
+
+        if (previous) {
+            await finished(previous).catch(() => {});
+        }
+    }
+
+    private async pointCurrent(filePath: string): Promise<void> {
+        const currentSymlink = path.join(path.dirname(filePath), `current.${this.extension}`);
+        try {
+            await fs.unlink(currentSymlink);
+        } catch {}
+
+        try {
+            await fs.symlink(path.basename(filePath), currentSymlink);
+        } catch (error) {
+            console.log('Could not create symlink (may not be supported on Windows)');
+        }
+    }
+
+    write(entry: LogEntry, text: string): void {
+        const line = this.extension === 'log' ? text : formatJson(entry, this.includeArgs);
+        this.stream?.write(line + '\n');
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => {
+            if (this.stream) {
+                this.stream.end(() => resolve());
+            } else {
+                resolve();
+            }
+        });
+    }
+}
@@ -0,0 +1,104 @@
+import * as http from 'http';
+import * as https from 'https';
+import { LogEntry } from '../logWriter';
+import { LogSink, SinkErrorReporter } from './LogSink';
+import { formatJson } from './formatters';
+
+const MAX_QUEUED = 1000;  // Entries kept while the endpoint is down - older ones are dropped
+
+/**
+ * POSTs entries as NDJSON (one JSON record per line) to an HTTP endpoint, batched every
+ * `batchInterval` ms so a chatty page does not turn into a request per console call
+ */
+export class HttpSink implements LogSink {
+    readonly name: string;
+    private queue: string[] = [];
+    private dropped = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private inFlight: Promise<void> | null = null;
+
+    constructor(
+        private url: string,
+        private report: SinkErrorReporter,
+        private headers: Record<string, string> = {},
+        private batchInterval: number = 1000
+    ) {
+        this.name = `http ${url}`;
+    }
+
+    write(entry: LogEntry): void {
+        this.queue.push(formatJson(entry));
+        if (this.queue.length > MAX_QUEUED) {
+            this.queue.shift();
+            this.dropped++;
+        }
+
+        if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.flush();
+            }, this.batchInterval);
+            this.timer.unref();
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.inFlight;
+        await this.flush();
+    }
+
+    private flush(): Promise<void> {
+        // One request at a time, so batches arrive in order
+        if (this.inFlight || this.queue.length === 0) {
+            return this.inFlight || Promise.resolve();
+        }
+
+        const batch = this.queue;
+        this.queue = [];
+        if (this.dropped > 0) {
+            this.report(new Error(`endpoint not keeping up, dropped ${this.dropped} entries`));
+            this.dropped = 0;
+        }
+
+        this.inFlight = this.post(batch.join('\n') + '\n')
+            .catch(error => this.report(error))
+            .finally(() => {
+                this.inFlight = null;
+                // Entries that arrived during the request
+                if (this.queue.length > 0 && !this.timer) {
+                    this.flush();
+                }
+            });
+        return this.inFlight;
+    }
+
+    private post(body: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const target = new URL(this.url);
+            const transport = target.protocol === 'https:' ? https : http;
+            const req = transport.request(target, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/x-ndjson',
+                    'Content-Length': Buffer.byteLength(body),
+                    ...this.headers
+                },
+                timeout: 5000
+            }, (res) => {
+                res.resume();
+                if (res.statusCode && res.statusCode >= 400) {
+                    reject(new Error(`HTTP ${res.statusCode}`));
+                } else {
+                    resolve();
+                }
+            });
+            req.on('error', reject);
+            req.on('timeout', () => req.destroy(new Error('request timed out')));
+            req.end(body);
+        });
+    }
+}
@@ -0,0 +1,38 @@
+import { LogEntry } from '../logWriter';
+
+/**
+ * A destination for log entries. LogWriter stamps, counts and filters each entry, then
+ * hands it to every sink along with its text log line. A throwing or failing sink is
+ * reported and skipped - it never stops the capture or the other sinks.
+ */
+export interface LogSink {
+    readonly name: string;
+    /**
+     * Start writing to a new session file - called at startup and on every rotation with
+     * the session path minus its extension (e.g. devmirror-logs/2025-09-24-143052)
+     */
+    open?(basePath: string): Promise<void>;
+    write(entry: LogEntry, text: string): void;
+    close(): Promise<void>;
+}
+
+/**
+ * Called by sinks for failures that happen after write() returned (stream errors, refused connections)
+ */
+export type SinkErrorReporter = (error: Error) => void;
+
+export type SinkLevel = 'debug' | 'info' | 'warning' | 'error';
+
+interface SinkFilterConfig {
+    level?: SinkLevel;  // Minimum level to pass (default: debug - everything)
+    types?: string[];  // Only these entry types, e.g. ["error", "network"] (default: all)
+    match?: string;  // Only entries whose message contains this text, or matches /regex/
+}
+
+export type SinkConfig = SinkFilterConfig & (
+    | { type: 'file' }  // The text log - always written, an entry here only filters it
+    | { type: 'jsonl'; includeArgs?: boolean }  // <session>.jsonl next to the text log
+    | { type: 'stdout'; colors?: boolean }  // The CLI terminal (colors default: when it is a TTY)
+    | { type: 'http'; url: string; headers?: Record<string, string>; batchInterval?: number }  // POSTs NDJSON batches
+    | { type: 'socket'; path: string }  // NDJSON over a Unix socket or Windows named pipe
+);
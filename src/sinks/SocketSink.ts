@@ -0,0 +1,80 @@
+import * as net from 'net';
+import { LogEntry } from '../logWriter';
+import { LogSink, SinkErrorReporter } from './LogSink';
+import { formatJson } from './formatters';
+
+const MAX_QUEUED = 1000;  // Entries kept while disconnected - older ones are dropped
+const RECONNECT_DELAY = 5000;
+
+/**
+ * NDJSON over a Unix domain socket (or a Windows named pipe). The listener may come and
+ * go - entries are queued while it is away and the connection is retried.
+ */
+export class SocketSink implements LogSink {
+    readonly name: string;
+    private socket: net.Socket | null = null;
+    private connected = false;
+    private queue: string[] = [];
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private closed = false;
+
+    constructor(private socketPath: string, private report: SinkErrorReporter) {
+        this.name = `socket ${socketPath}`;
+        this.connect();
+    }
+
+    write(entry: LogEntry): void {
+        const line = formatJson(entry) + '\n';
+        if (this.connected && this.socket) {
+            this.socket.write(line);
+            return;
+        }
+
+        this.queue.push(line);
+        if (this.queue.length > MAX_QUEUED) {
+            this.queue.shift();
+        }
+    }
+
+    close(): Promise<void> {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        return new Promise(resolve => {
+            if (this.socket && this.connected) {
+                this.socket.end(() => resolve());
+            } else {
+                this.socket?.destroy();
+                resolve();
+            }
+        });
+    }
+
+    private connect(): void {
+        const socket = net.createConnection(this.socketPath);
+        this.socket = socket;
+
+        socket.on('connect', () => {
+            this.connected = true;
+            for (const line of this.queue) {
+                socket.write(line);
+            }
+            this.queue = [];
+        });
+        socket.on('error', (error) => this.report(error));
+        socket.on('close', () => {
+            this.connected = false;
+            if (!this.closed && !this.reconnectTimer) {
+                this.reconnectTimer = setTimeout(() => {
+                    this.reconnectTimer = null;
+                    this.connect();
+                }, RECONNECT_DELAY);
+                this.reconnectTimer.unref();
+            }
+        });
+        socket.unref();
+    }
+}
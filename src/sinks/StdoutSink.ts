@@ -0,0 +1,28 @@
+import { LogEntry } from '../logWriter';
+import { LogSink } from './LogSink';
+import { levelOf } from './formatters';
+
+const RESET = '\x1b[0m';
+const COLORS: Record<string, string> = {
+    error: '\x1b[31m',  // Red
+    warning: '\x1b[33m',  // Yellow
+    debug: '\x1b[90m',  // Gray
+    verbose: '\x1b[90m',
+    lifecycle: '\x1b[36m'  // Cyan
+};
+
+/**
+ * Text log lines in the CLI terminal, colored by level
+ */
+export class StdoutSink implements LogSink {
+    readonly name = 'stdout';
+
+    constructor(private colors: boolean = !!process.stdout.isTTY) {}
+
+    write(entry: LogEntry, text: string): void {
+        const color = this.colors ? COLORS[entry.type === 'lifecycle' ? 'lifecycle' : levelOf(entry)] : undefined;
+        process.stdout.write(color ? `${color}${text}${RESET}\n` : `${text}\n`);
+    }
+
+    async close(): Promise<void> {}
+}
@@ -0,0 +1,241 @@
+import { LogEntry, StackFrame, TargetInfo } from '../logWriter';
+
+/**
+ * How entries are rendered for the sinks - the text log line and the NDJSON record.
+ */
+
+/**
+ * Severity used for the stats and for sink level filters: error, warning, info, debug
+ * (Log.entryAdded levels such as verbose pass through)
+ */
+export function levelOf(entry: LogEntry): string {
+    if (entry.type === 'error' || (entry.type === 'network' && !entry.kind)) {
+        return 'error';
+    }
+    if (entry.method === 'warn' || entry.level === 'warning') {
+        return 'warning';
+    }
+    if (entry.type === 'debug' || entry.method === 'debug') {
+        return 'debug';
+    }
+    return entry.level || 'info';
+}
+
+/**
+ * One NDJSON line per entry - the same data as the text log, without parsing it back out
+ */
+export function formatJson(entry: LogEntry, includeArgs: boolean = true): string {
+    const frames = entry.frames || toStackFrames(entry.stack);
+    const record = {
+        time: new Date(entry.timestamp).toISOString(),
+        timestamp: entry.timestamp,
+        monotonic: entry.monotonic,
+        type: entry.type,
+        kind: entry.kind,
+        level: levelOf(entry),
+        method: entry.method,
+        source: entry.source,
+        message: entry.message,
+        url: entry.url,
+        target: entry.target,
+        segment: entry.segment,
+        group: entry.group,
+        styles: entry.styles,
+        stack: frames,
+        stackText: !frames && typeof entry.stack === 'string' ? entry.stack : undefined,
+        args: includeArgs ? entry.args : undefined,
+        count: entry.count,
+        screenshot: entry.screenshot
+    };
+
+    try {
+        return JSON.stringify(record);
+    } catch {
+        // Arguments that cannot be serialized must not cost the entry
+        return JSON.stringify({ ...record, args: undefined });
+    }
+}
+
+/**
+ * Structured frames from a CDP stack trace, a call frame array or "at fn (file:line:col)" text
+ */
+function toStackFrames(stack: any): StackFrame[] | undefined {
+    if (!stack) {
+        return undefined;
+    }
+
+    if (Array.isArray(stack)) {
+        return stack.map(frame => ({
+            functionName: frame.functionName || undefined,
+            url: frame.url || undefined,
+            lineNumber: frame.lineNumber,
+            columnNumber: frame.columnNumber,
+            sourcePath: frame.sourcePath
+        }));
+    }
+
+    if (Array.isArray(stack.callFrames)) {
+        return toStackFrames(stack.callFrames);
+    }
+
+    if (typeof stack === 'string') {
+        const frames: StackFrame[] = [];
+        for (const line of stack.split('\n')) {
+            const match = line.match(/^\s*at (?:(.*?) \()?(.+?):(\d+):(\d+)\)?$/);
+            if (match) {
+                frames.push({
+                    functionName: match[1] || undefined,
+                    url: match[2],
+                    lineNumber: Number(match[3]),
+                    columnNumber: Number(match[4])
+                });
+            }
+        }
+        return frames.length > 0 ? frames : undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * The text log line for an entry, with multi-line messages indented under the prefix
+ */
+export function formatText(entry: LogEntry): string {
+    const date = new Date(entry.timestamp);
+
+    // Format: yymmddThh:mm:ss.ms (two digit milliseconds)
+    const year = String(date.getFullYear()).slice(-2);  // Last 2 digits of year
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    const seconds = String(date.getSeconds()).padStart(2, '0');
+    const ms = String(Math.floor(date.getMilliseconds() / 10)).padStart(2, '0'); // Two digits (00-99)
+
+    const timestamp = `${year}${month}${day}T${hours}:${minutes}:${seconds}.${ms}`;
+    const prefix = `[${timestamp}]`;
+
+    let typeLabel = entry.type.toUpperCase();
+    if (entry.type === 'console' && entry.method) {
+        // User console calls - use the method name (log, warn, error, etc.)
+        typeLabel = entry.method.toUpperCase();
+        if (entry.method === 'startGroup' || entry.method === 'startGroupCollapsed') {
+            typeLabel = 'GROUP';
+        }
+    } else if (entry.type === 'console' && entry.source) {
+        // Browser-generated console messages - show source
+        typeLabel = `[${entry.source.toUpperCase()}]`;
+    } else if (entry.type === 'error' && entry.method === 'assert') {
+        // Failed console.assert() - flagged distinctly from thrown errors
+        typeLabel = 'ASSERT:FAILED';
+    } else if (entry.type === 'error' && entry.source === 'vite') {
+        // Vite-specific errors - distinctive formatting
+        typeLabel = '🔥 VITE';
+    } else if (entry.type === 'network' && entry.kind) {
+        typeLabel = `NETWORK:${entry.kind.toUpperCase()}`;
+    } else if (entry.type === 'network') {
+        typeLabel = 'NETWORK:ERROR';
+    } else if (entry.type === 'issue' && entry.kind) {
+        typeLabel = `ISSUE:${entry.kind.toUpperCase()}`;
+    } else if (entry.type === 'performance' && entry.kind) {
+        typeLabel = `PERF:${entry.kind.toUpperCase()}`;
+    } else if (entry.type === 'dialog' && entry.kind) {
+        typeLabel = `DIALOG:${entry.kind.toUpperCase()}`;
+    } else if (entry.type === 'browser' && entry.level) {
+        typeLabel = `BROWSER:${entry.level.toUpperCase()}`;
+    }
+
+    // Tag output from child targets (workers, iframes) so it can be told apart from the page
+    let targetTag = '';
+    if (entry.target && entry.target.type !== 'page') {
+        targetTag = `[${formatTargetTag(entry.target)}] `;
+    }
+
+    // console.group() nesting is rendered as leading indentation so editors fold each group
+    const groupIndent = entry.group ? '  '.repeat(entry.group.depth) : '';
+
+    // Reload segment, so a log can be filtered down to one page load
+    const segmentTag = entry.segment ? `[#${entry.segment}] ` : '';
+
+    // Handle multi-line messages with proper indentation
+    const logPrefix = `${groupIndent}${prefix} ${segmentTag}[${typeLabel}] ${targetTag}`;
+    const prefixLength = logPrefix.length;
+
+    // Split the message into lines and indent continuation lines
+    const messageLines = entry.message.split('\n');
+    const indentedMessage = messageLines.map((line, index) => {
+        if (index === 0) {
+            return line;  // First line stays as-is
+        }
+        // Indent continuation lines to align with the start of the message
+        return ' '.repeat(prefixLength) + line;
+    }).join('\n');
+
+    let message = logPrefix + indentedMessage;
+
+    if (entry.count && entry.count > 1) {
+        message += ` (×${entry.count})`;
+    }
+
+    if (entry.url) {
+        message += `\n    URL: ${entry.url}`;
+    }
+
+    if (entry.screenshot) {
+        message += `\n    Screenshot: ${entry.screenshot}`;
+    }
+
+    // Source is now included in typeLabel, no need to duplicate it
+
+    if (entry.stack) {
+        const stackTrace = formatStackTrace(entry.stack);
+        if (stackTrace) {
+            message += `\n${stackTrace}`;
+        }
+    }
+
+    return message;
+}
+
+function formatTargetTag(target: TargetInfo): string {
+    const label = target.id ? `${target.type.toUpperCase()} ${target.id}` : target.type.toUpperCase();
+    let name = target.title || (target.url ? target.url.split('?')[0].split('/').pop() : '');
+    if (name && name.length > 30) {
+        name = name.substring(0, 29) + '…';
+    }
+    return name ? `${label} ${name}` : label;
+}
+
+function formatStackTrace(stack: any): string {
+    if (!stack) {
+        return '';
+    }
+
+    if (typeof stack === 'string') {
+        // If the stack is already formatted (contains "at " patterns), use as-is
+        // Otherwise add indentation
+        if (stack.includes('    at ') || stack.includes('\tat ')) {
+            return stack;
+        }
+        return stack.split('\n')
+            .map(line => `    ${line}`)
+            .join('\n');
+    }
+
+    if (Array.isArray(stack)) {
+        return stack
+            .map(frame => {
+                if (frame.functionName && frame.url && frame.lineNumber) {
+                    return `    at ${frame.functionName} (${frame.url}:${frame.lineNumber}:${frame.columnNumber || 0})`;
+                }
+                return `    at ${frame.url || 'unknown'}`;
+            })
+            .join('\n');
+    }
+
+    if (stack.callFrames && Array.isArray(stack.callFrames)) {
+        return formatStackTrace(stack.callFrames);
+    }
+
+    return '';
+}
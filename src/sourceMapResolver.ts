@@ -0,0 +1,377 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * One decoded mapping: generated column -> original source position
+ */
+interface MappingSegment {
+    generatedColumn: number;
+    sourceIndex?: number;
+    originalLine?: number;
+    originalColumn?: number;
+    nameIndex?: number;
+}
+
+interface ParsedSourceMap {
+    sources: string[];  // Already resolved to workspace paths where possible
+    names: string[];
+    lines: MappingSegment[][];  // Indexed by 0-based generated line
+}
+
+export interface OriginalPosition {
+    sourcePath: string;
+    lineNumber: number;  // 0-based, same convention as CDP
+    columnNumber: number;  // 0-based, same convention as CDP
+    name?: string;
+}
+
+const MAP_FETCH_TIMEOUT = 10000;
+const MAX_WAIT = 3000;  // Longest an event is held back for its map
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Collects sourceMapURLs from Debugger.scriptParsed, fetches and caches the maps,
+ * and rewrites bundled stack frames (index-4f2a.js:1:88213) to original workspace
+ * files, lines and function names.
+ *
+ * Lookups are synchronous so the handlers can stay synchronous. Maps are fetched when
+ * the script is parsed, but the script starts running meanwhile - callers hold events
+ * whose frames point at a map still loading until whenLoaded() settles.
+ */
+export class SourceMapResolver {
+    private scriptMaps = new Map<string, string>();  // scriptId -> source map URL
+    private urlMaps = new Map<string, string>();  // script URL -> source map URL
+    private maps = new Map<string, ParsedSourceMap | null>();  // source map URL -> parsed map (null = failed)
+    private loading = new Map<string, Promise<void>>();
+
+    constructor(private workspaceRoot: string = process.env.DEVMIRROR_PKG_PATH || process.cwd()) {}
+
+    /**
+     * Process Debugger.scriptParsed events
+     */
+    handleScriptParsed(event: any): void {
+        if (!event.sourceMapURL || !event.url) {
+            return;
+        }
+
+        const mapUrl = this.resolveUrl(event.sourceMapURL, event.url);
+        if (!mapUrl) {
+            return;
+        }
+
+        this.scriptMaps.set(event.scriptId, mapUrl);
+        this.urlMaps.set(event.url, mapUrl);
+
+        if (!this.maps.has(mapUrl) && !this.loading.has(mapUrl)) {
+            // Inline maps resolve their sources relative to the script itself
+            const baseUrl = mapUrl.startsWith('data:') ? event.url : mapUrl;
+            const load = this.loadMap(mapUrl, baseUrl).finally(() => this.loading.delete(mapUrl));
+            this.loading.set(mapUrl, load);
+        }
+    }
+
+    /**
+     * Resolves once the maps of these frames are loaded (or after MAX_WAIT), or null if
+     * none is still loading, so the common case stays synchronous
+     */
+    whenLoaded(frames: any[]): Promise<void> | null {
+        const pending = new Set<Promise<void>>();
+        for (const frame of frames) {
+            const mapUrl = (frame.scriptId && this.scriptMaps.get(frame.scriptId)) || (frame.url && this.urlMaps.get(frame.url));
+            const load = mapUrl && this.loading.get(mapUrl);
+            if (load) {
+                pending.add(load);
+            }
+        }
+        if (pending.size === 0) {
+            return null;
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<void>(resolve => {
+            timer = setTimeout(resolve, MAX_WAIT);
+            timer.unref();
+        });
+        return Promise.race([Promise.all(pending).then(() => {}), timeout]).finally(() => clearTimeout(timer));
+    }
+
+    /**
+     * Map a generated position to its original source position, if a map is loaded
+     */
+    resolveLocation(url: string | undefined, lineNumber: number, columnNumber: number, scriptId?: string): OriginalPosition | null {
+        const mapUrl = (scriptId && this.scriptMaps.get(scriptId)) || (url && this.urlMaps.get(url));
+        if (!mapUrl) {
+            return null;
+        }
+
+        const map = this.maps.get(mapUrl);
+        const segments = map?.lines[lineNumber];
+        if (!map || !segments || segments.length === 0) {
+            return null;
+        }
+
+        // Last segment starting at or before the column
+        let low = 0;
+        let high = segments.length - 1;
+        let match = -1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            if (segments[mid].generatedColumn <= columnNumber) {
+                match = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        const segment = segments[match === -1 ? 0 : match];
+        if (segment.sourceIndex === undefined || segment.originalLine === undefined) {
+            return null;
+        }
+
+        return {
+            sourcePath: map.sources[segment.sourceIndex],
+            lineNumber: segment.originalLine,
+            columnNumber: segment.originalColumn || 0,
+            name: segment.nameIndex !== undefined ? map.names[segment.nameIndex] : undefined
+        };
+    }
+
+    /**
+     * Rewrite CDP call frames to original positions. Mapped frames keep their fields
+     * and gain a `sourcePath`; frames without a loaded map are returned unchanged.
+     *
+     * The original function name of a frame is the name mapped at its caller's call
+     * site (the identifier being called), so names are taken from the next frame.
+     */
+    resolveStack(callFrames: any[]): any[] {
+        const positions = callFrames.map(frame =>
+            frame.lineNumber !== undefined
+                ? this.resolveLocation(frame.url, frame.lineNumber, frame.columnNumber || 0, frame.scriptId)
+                : null
+        );
+
+        return callFrames.map((frame, i) => {
+            const position = positions[i];
+            if (!position) {
+                return frame;
+            }
+
+            const callerName = positions[i + 1]?.name;
+            return {
+                ...frame,
+                functionName: callerName || frame.functionName,
+                sourcePath: position.sourcePath,
+                lineNumber: position.lineNumber,
+                columnNumber: position.columnNumber
+            };
+        });
+    }
+
+    private async loadMap(mapUrl: string, baseUrl: string): Promise<void> {
+        try {
+            const raw = await this.readMap(mapUrl);
+            this.maps.set(mapUrl, this.parseMap(JSON.parse(raw), baseUrl));
+        } catch (error: any) {
+            this.maps.set(mapUrl, null);
+            console.log(`   ⚠️ Could not load source map ${mapUrl.startsWith('data:') ? '(inline)' : mapUrl}: ${error.message}`);
+        }
+    }
+
+    private async readMap(mapUrl: string): Promise<string> {
+        if (mapUrl.startsWith('data:')) {
+            const comma = mapUrl.indexOf(',');
+            const header = mapUrl.substring(0, comma);
+            const data = mapUrl.substring(comma + 1);
+            return header.endsWith(';base64')
+                ? Buffer.from(data, 'base64').toString('utf8')
+                : decodeURIComponent(data);
+        }
+
+        if (mapUrl.startsWith('file://')) {
+            return fs.promises.readFile(fileURLToPath(mapUrl), 'utf8');
+        }
+
+        const response = await fetch(mapUrl, { signal: AbortSignal.timeout(MAP_FETCH_TIMEOUT) });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        return response.text();
+    }
+
+    private parseMap(raw: any, baseUrl: string): ParsedSourceMap {
+        // Index maps: flatten each section into one line table
+        if (Array.isArray(raw.sections)) {
+            const result: ParsedSourceMap = { sources: [], names: [], lines: [] };
+            for (const section of raw.sections) {
+                if (!section.map) {
+                    continue;
+                }
+                const sub = this.parseMap(section.map, baseUrl);
+                const lineOffset = section.offset?.line || 0;
+                const columnOffset = section.offset?.column || 0;
+                const sourceOffset = result.sources.length;
+                const nameOffset = result.names.length;
+                result.sources.push(...sub.sources);
+                result.names.push(...sub.names);
+
+                sub.lines.forEach((segments, line) => {
+                    const target = line + lineOffset;
+                    result.lines[target] = result.lines[target] || [];
+                    for (const segment of segments) {
+                        result.lines[target].push({
+                            generatedColumn: segment.generatedColumn + (line === 0 ? columnOffset : 0),
+                            sourceIndex: segment.sourceIndex !== undefined ? segment.sourceIndex + sourceOffset : undefined,
+                            originalLine: segment.originalLine,
+                            originalColumn: segment.originalColumn,
+                            nameIndex: segment.nameIndex !== undefined ? segment.nameIndex + nameOffset : undefined
+                        });
+                    }
+                });
+            }
+            return result;
+        }
+
+        const sources = (raw.sources || []).map((source: string) =>
+            this.resolveSourcePath(source || '', raw.sourceRoot || '', baseUrl)
+        );
+
+        return {
+            sources,
+            names: raw.names || [],
+            lines: this.decodeMappings(raw.mappings || '')
+        };
+    }
+
+    private decodeMappings(mappings: string): MappingSegment[][] {
+        const lines: MappingSegment[][] = [];
+        let sourceIndex = 0;
+        let originalLine = 0;
+        let originalColumn = 0;
+        let nameIndex = 0;
+
+        for (const line of mappings.split(';')) {
+            const segments: MappingSegment[] = [];
+            let generatedColumn = 0;
+
+            for (const encoded of line.split(',')) {
+                if (!encoded) {
+                    continue;
+                }
+                const values = this.decodeVlq(encoded);
+                generatedColumn += values[0];
+                const segment: MappingSegment = { generatedColumn };
+
+                if (values.length >= 4) {
+                    sourceIndex += values[1];
+                    originalLine += values[2];
+                    originalColumn += values[3];
+                    segment.sourceIndex = sourceIndex;
+                    segment.originalLine = originalLine;
+                    segment.originalColumn = originalColumn;
+                }
+                if (values.length >= 5) {
+                    nameIndex += values[4];
+                    segment.nameIndex = nameIndex;
+                }
+                segments.push(segment);
+            }
+
+            segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+            lines.push(segments);
+        }
+
+        return lines;
+    }
+
+    private decodeVlq(encoded: string): number[] {
+        const values: number[] = [];
+        let value = 0;
+        let shift = 0;
+
+        for (const char of encoded) {
+            const digit = BASE64_CHARS.indexOf(char);
+            if (digit === -1) {
+                break;
+            }
+            value += (digit & 31) << shift;
+            if (digit & 32) {
+                shift += 5;
+            } else {
+                const negative = value & 1;
+                value >>= 1;
+                values.push(negative ? -value : value);
+                value = 0;
+                shift = 0;
+            }
+        }
+
+        return values;
+    }
+
+    /**
+     * Turn a map source entry into a real workspace file where possible.
+     * Handles webpack:// namespaces, Vite's /@fs/ prefix, file:// URLs and
+     * dev-server paths that mirror the project layout.
+     */
+    private resolveSourcePath(source: string, sourceRoot: string, baseUrl: string): string {
+        let candidate = source;
+        if (sourceRoot && !/^[a-z][\w+.-]*:/i.test(source) && !source.startsWith('/')) {
+            candidate = sourceRoot.replace(/\/?$/, '/') + source;
+        }
+
+        let filePath: string | null = null;
+
+        if (candidate.startsWith('webpack://')) {
+            // webpack://<namespace>/./src/App.tsx
+            const rest = candidate.substring('webpack://'.length);
+            filePath = rest.substring(rest.indexOf('/') + 1).replace(/^\.\//, '').split('?')[0];
+        } else if (candidate.startsWith('file://')) {
+            filePath = fileURLToPath(candidate);
+        } else {
+            // Relative or absolute URL - resolve against the map's location and use its path
+            const resolved = this.resolveUrl(candidate, baseUrl);
+            if (resolved?.startsWith('file://')) {
+                filePath = fileURLToPath(resolved);
+            } else if (resolved && /^https?:/.test(resolved)) {
+                filePath = decodeURIComponent(new URL(resolved).pathname);
+            }
+        }
+
+        if (filePath === null) {
+            filePath = candidate;
+        }
+
+        // Vite serves files outside the root as /@fs/<absolute path>
+        if (filePath.startsWith('/@fs/')) {
+            filePath = filePath.substring('/@fs'.length);
+        }
+
+        return this.toWorkspacePath(filePath) || source;
+    }
+
+    private toWorkspacePath(filePath: string): string | null {
+        const candidates = path.isAbsolute(filePath)
+            ? [filePath, path.join(this.workspaceRoot, filePath)]
+            : [path.join(this.workspaceRoot, filePath)];
+
+        for (const candidate of candidates) {
+            if (fs.existsSync(candidate)) {
+                const relative = path.relative(this.workspaceRoot, candidate);
+                return relative.startsWith('..') ? candidate : relative.split(path.sep).join('/');
+            }
+        }
+
+        return null;
+    }
+
+    private resolveUrl(url: string, base: string): string | null {
+        try {
+            return new URL(url, base).toString();
+        } catch {
+            return null;
+        }
+    }
+}
@@ -6,6 +6,8 @@ interface ActiveSession {
     pid: number;
     url: string;
     logDir: string;
+    controlPort?: number;  // The CLI's control server, for switching emulation profiles
+    controlToken?: string;  // Required by the control server on every request
     startTime: number;
     logCount: number;
     lastSize: number;
@@ -31,7 +33,7 @@ export class StatusMonitor {
         this.statusBarItem.hide(); // Hide by default
     }
 
-    activate(args: { path: string; pid: number; url: string; logDir: string }): void {
+    activate(args: { path: string; pid: number; url: string; logDir: string; controlPort?: number; controlToken?: string }): void {
         console.log(`[DevMirror] StatusMonitor.activate called with:`, args);
 
         // Check if this activation is for the current workspace
@@ -70,6 +72,8 @@ export class StatusMonitor {
         // If we already have an active session with the same path, just update the PID
         if (this.activeSession && this.activeSession.path === args.path) {
             this.activeSession.pid = args.pid;
+            this.activeSession.controlPort = args.controlPort;
+            this.activeSession.controlToken = args.controlToken;
             console.log(`Updated DevMirror session for ${args.path} with PID ${args.pid}`);
             return;
         }
@@ -80,6 +84,8 @@ export class StatusMonitor {
             pid: args.pid,
             url: args.url,
             logDir: args.logDir,
+            controlPort: args.controlPort,
+            controlToken: args.controlToken,
             startTime: Date.now(),
             logCount: 0,
             lastSize: 0
@@ -211,6 +217,11 @@ Click to open log file`;
         return this.activeSession?.path || null;
     }
 
+    getControl(): { port: number; token: string } | null {
+        const session = this.activeSession;
+        return session?.controlPort && session.controlToken ? { port: session.controlPort, token: session.controlToken } : null;
+    }
+
     onLogChange(callback: LogChangeCallback): void {
         this.onLogChangeCallback = callback;
     }
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { CDPManager } from '../cdpManager';
+
+// cefEventKey is private - the identity CEF replays are deduplicated by
+const keyOf = (method: string, params: any): string | null => (new CDPManager() as any).cefEventKey(method, params);
+
+function consoleCall(value: any) {
+    return {
+        executionContextId: 3,
+        timestamp: 1700000000123,
+        type: 'log',
+        args: [{ type: 'string', value: 'item' }, { type: typeof value, value }],
+        stackTrace: { callFrames: [{ url: 'http://localhost/app.js', lineNumber: 10, columnNumber: 4 }] }
+    };
+}
+
+suite('CEF event identity', () => {
+    test('a replayed console call has the same key', () => {
+        assert.strictEqual(keyOf('Runtime.consoleAPICalled', consoleCall(1)), keyOf('Runtime.consoleAPICalled', consoleCall(1)));
+    });
+
+    test('calls from one line in the same millisecond with different arguments differ', () => {
+        assert.notStrictEqual(keyOf('Runtime.consoleAPICalled', consoleCall(1)), keyOf('Runtime.consoleAPICalled', consoleCall(2)));
+    });
+
+    test('objects are told apart by their description', () => {
+        const call = (description: string) => ({ ...consoleCall(0), args: [{ type: 'object', objectId: '1', description }] });
+        assert.notStrictEqual(keyOf('Runtime.consoleAPICalled', call('Array(1)')), keyOf('Runtime.consoleAPICalled', call('Array(2)')));
+    });
+
+    test('network events are keyed by request and time, other events are never deduplicated', () => {
+        assert.strictEqual(keyOf('Network.loadingFinished', { requestId: '5', timestamp: 1.5 }), 'Network.loadingFinished:5:1.5');
+        assert.strictEqual(keyOf('Page.loadEventFired', { timestamp: 1 }), null);
+    });
+});
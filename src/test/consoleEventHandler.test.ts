@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { LogEntry, LogWriter } from '../logWriter';
+import { ConsoleEventHandler } from '../handlers/ConsoleEventHandler';
+
+// Collects entries instead of writing files
+function recorder(): { writer: LogWriter; entries: LogEntry[] } {
+    const entries: LogEntry[] = [];
+    const writer = { write: (entry: LogEntry) => entries.push(entry) } as unknown as LogWriter;
+    return { writer, entries };
+}
+
+// Object expansion answers after a delay, like a real page
+const slowSession = {
+    send: () => new Promise(resolve => setTimeout(() => resolve({ result: [] }), 30))
+};
+
+suite('ConsoleEventHandler', () => {
+    test('exceptions and browser log entries wait for console entries being expanded', async () => {
+        const { writer, entries } = recorder();
+        const handler = new ConsoleEventHandler(writer, { outputDir: '.', mode: 'cdp', objectExpansion: { enabled: true } });
+
+        handler.handleConsoleAPI({
+            type: 'log',
+            args: [{ type: 'object', objectId: '1', description: 'Object' }]
+        }, undefined, slowSession);
+        handler.handleExceptionThrown({ exception: { description: 'Error: boom' } });
+        handler.handleLogEntry({ entry: { level: 'warning', source: 'intervention', text: 'slow' } });
+
+        assert.strictEqual(entries.length, 0);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert.deepStrictEqual(entries.map(entry => entry.type), ['console', 'error', 'console']);
+        assert.strictEqual(entries[2].level, 'warning');
+    });
+
+    test('writes straight away when nothing is being expanded', () => {
+        const { writer, entries } = recorder();
+        const handler = new ConsoleEventHandler(writer, { outputDir: '.', mode: 'cdp' });
+
+        handler.handleConsoleAPI({ type: 'log', args: [{ type: 'string', value: 'hi' }] });
+        handler.handleExceptionThrown({ exception: { description: 'Error: boom' } });
+        assert.deepStrictEqual(entries.map(entry => entry.message), ['hi', 'Error: boom']);
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { LogEntry } from '../logWriter';
+import { formatJson, formatText, levelOf } from '../sinks/formatters';
+
+const entry = (fields: Partial<LogEntry>): LogEntry => ({ type: 'console', message: 'hello', timestamp: Date.UTC(2025, 8, 24, 14, 30, 52, 120), ...fields });
+
+suite('formatters', () => {
+    suite('levelOf', () => {
+        test('errors and failed requests are errors', () => {
+            assert.strictEqual(levelOf(entry({ type: 'error' })), 'error');
+            assert.strictEqual(levelOf(entry({ type: 'network' })), 'error');
+            assert.strictEqual(levelOf(entry({ type: 'network', kind: 'websocket' })), 'info');
+        });
+
+        test('console.warn and browser warnings are warnings', () => {
+            assert.strictEqual(levelOf(entry({ method: 'warn' })), 'warning');
+            assert.strictEqual(levelOf(entry({ source: 'deprecation', level: 'warning' })), 'warning');
+        });
+
+        test('debug output and other Log.entryAdded levels', () => {
+            assert.strictEqual(levelOf(entry({ type: 'debug', level: 'verbose' })), 'debug');
+            assert.strictEqual(levelOf(entry({ method: 'debug' })), 'debug');
+            assert.strictEqual(levelOf(entry({ source: 'network', level: 'verbose' })), 'verbose');
+            assert.strictEqual(levelOf(entry({ method: 'log' })), 'info');
+        });
+    });
+
+    suite('formatJson', () => {
+        test('writes one record with the capture-time monotonic stamp', () => {
+            const record = JSON.parse(formatJson(entry({ method: 'log', monotonic: 42.5, segment: 2 })));
+            assert.strictEqual(record.time, '2025-09-24T14:30:52.120Z');
+            assert.strictEqual(record.monotonic, 42.5);
+            assert.strictEqual(record.level, 'info');
+            assert.strictEqual(record.segment, 2);
+            assert.ok(!('url' in record));
+        });
+
+        test('parses text stacks into frames', () => {
+            const record = JSON.parse(formatJson(entry({ type: 'error', stack: '    at load (http://localhost/app.js:10:5)\n    at http://localhost/main.js:1:2' })));
+            assert.deepStrictEqual(record.stack, [
+                { functionName: 'load', url: 'http://localhost/app.js', lineNumber: 10, columnNumber: 5 },
+                { url: 'http://localhost/main.js', lineNumber: 1, columnNumber: 2 }
+            ]);
+            assert.strictEqual(record.stackText, undefined);
+        });
+
+        test('leaves out arguments when asked to or when they cannot be serialized', () => {
+            const args = [{ type: 'number', value: 1 }];
+            assert.strictEqual(JSON.parse(formatJson(entry({ args }), false)).args, undefined);
+
+            const circular: any = { type: 'object' };
+            circular.self = circular;
+            const record = JSON.parse(formatJson(entry({ args: [circular] })));
+            assert.strictEqual(record.args, undefined);
+            assert.strictEqual(record.message, 'hello');
+        });
+    });
+
+    suite('formatText', () => {
+        test('labels entries by method, kind and target', () => {
+            assert.match(formatText(entry({ method: 'warn' })), /^\[\d{6}T\d{2}:\d{2}:\d{2}\.12\] \[WARN\] hello$/);
+            assert.match(formatText(entry({ type: 'dialog', kind: 'confirm' })), /\[DIALOG:CONFIRM\] hello$/);
+            assert.match(formatText(entry({ method: 'log', target: { type: 'tab', id: '2', title: 'Sign in' } })), /\[LOG\] \[TAB 2 Sign in\] hello$/);
+            assert.match(formatText(entry({ method: 'log', segment: 3 })), /\] \[#3\] \[LOG\] hello$/);
+        });
+
+        test('indents continuation lines and groups', () => {
+            const lines = formatText(entry({ method: 'log', message: 'one\ntwo', group: { depth: 1, parentId: 1 } })).split('\n');
+            assert.ok(lines[0].startsWith('  ['));
+            assert.strictEqual(lines[1].trimStart(), 'two');
+            assert.strictEqual(lines[1].indexOf('two'), lines[0].indexOf('one'));
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HarRecorder } from '../handlers/HarRecorder';
+
+function request(requestId: string, url: string, timestamp = 100) {
+    return {
+        requestId,
+        request: { method: 'GET', url, headers: { Accept: '*/*' } },
+        wallTime: 1700000000 + timestamp,
+        timestamp,
+        type: 'Fetch'
+    };
+}
+
+function response(requestId: string, status = 200) {
+    return {
+        requestId,
+        timestamp: 100.2,
+        response: { status, statusText: 'OK', protocol: 'h2', mimeType: 'application/json', headers: { 'Set-Cookie': 'a=1; Path=/\nb=2' } }
+    };
+}
+
+const session = (body: string) => ({
+    send: async (method: string) => {
+        assert.strictEqual(method, 'Network.getResponseBody');
+        return { body, base64Encoded: false };
+    }
+});
+
+suite('HarRecorder', () => {
+    let dir: string;
+    let harPath: string;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devmirror-har-'));
+        harPath = path.join(dir, 'session.har');
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const readHar = () => JSON.parse(fs.readFileSync(harPath, 'utf8')).log;
+
+    test('converts a finished request into a HAR entry', async () => {
+        const recorder = new HarRecorder(harPath);
+        recorder.handleRequestWillBeSent(request('1', 'http://localhost/api?x=1&y=two'));
+        recorder.handleResponseReceived(response('1'));
+        await recorder.handleLoadingFinished({ requestId: '1', timestamp: 100.5, encodedDataLength: 7 }, session('{"a":1}'));
+        await recorder.close();
+
+        const [entry] = readHar().entries;
+        assert.strictEqual(entry.request.method, 'GET');
+        assert.deepStrictEqual(entry.request.queryString, [{ name: 'x', value: '1' }, { name: 'y', value: 'two' }]);
+        assert.strictEqual(entry.response.status, 200);
+        assert.strictEqual(entry.response.httpVersion, 'HTTP/2.0');
+        assert.deepStrictEqual(entry.response.cookies, [{ name: 'a', value: '1' }, { name: 'b', value: '2' }]);
+        assert.strictEqual(entry.response.content.text, '{"a":1}');
+        assert.strictEqual(entry._resourceType, 'fetch');
+        assert.strictEqual(Math.round(entry.time), 500);
+    });
+
+    test('records redirects and failures as their own entries', async () => {
+        const recorder = new HarRecorder(harPath);
+        recorder.handleRequestWillBeSent(request('1', 'http://localhost/old'));
+        recorder.handleRequestWillBeSent({
+            ...request('1', 'http://localhost/new', 100.1),
+            redirectResponse: { status: 301, statusText: 'Moved', headers: {} }
+        });
+        recorder.handleLoadingFailed({ requestId: '1', timestamp: 100.3, errorText: 'net::ERR_ABORTED' });
+        await recorder.close();
+
+        const [redirect, failed] = readHar().entries;
+        assert.strictEqual(redirect.response.status, 301);
+        assert.strictEqual(redirect.response.redirectURL, 'http://localhost/new');
+        assert.strictEqual(failed.response.status, 0);
+        assert.strictEqual(failed._error, 'net::ERR_ABORTED');
+    });
+
+    test('keeps only the newest maxEntries entries', async () => {
+        const recorder = new HarRecorder(harPath, { maxEntries: 2 });
+        for (const id of ['1', '2', '3']) {
+            recorder.handleRequestWillBeSent(request(id, `http://localhost/${id}`, 100 + Number(id)));
+            recorder.handleLoadingFailed({ requestId: id, timestamp: 110, errorText: 'failed' });
+        }
+        await recorder.close();
+
+        const log = readHar();
+        assert.deepStrictEqual(log.entries.map((entry: any) => entry.request.url), ['http://localhost/2', 'http://localhost/3']);
+        assert.match(log.comment, /^1 earlier entries dropped/);
+    });
+
+    test('omits bodies past the size limits', async () => {
+        const recorder = new HarRecorder(harPath, { maxBodySize: 10, maxTotalBodySize: 12 });
+        for (const id of ['1', '2', '3']) {
+            recorder.handleRequestWillBeSent(request(id, `http://localhost/${id}`, 100 + Number(id)));
+            recorder.handleResponseReceived(response(id));
+        }
+        await recorder.handleLoadingFinished({ requestId: '1', timestamp: 110, encodedDataLength: 8 }, session('12345678'));
+        await recorder.handleLoadingFinished({ requestId: '2', timestamp: 110, encodedDataLength: 8 }, session('12345678'));
+        await recorder.handleLoadingFinished({ requestId: '3', timestamp: 110, encodedDataLength: 20 }, session('x'.repeat(20)));
+        await recorder.close();
+
+        const [first, second, third] = readHar().entries.map((entry: any) => entry.response.content);
+        assert.strictEqual(first.text, '12345678');
+        assert.match(second.comment, /total body size/);
+        assert.match(third.comment, /exceeds 10/);
+    });
+
+    test('close waits for bodies still being fetched', async () => {
+        const recorder = new HarRecorder(harPath);
+        recorder.handleRequestWillBeSent(request('1', 'http://localhost/slow'));
+        recorder.handleResponseReceived(response('1'));
+        recorder.handleLoadingFinished({ requestId: '1', timestamp: 101, encodedDataLength: 4 }, {
+            send: () => new Promise(resolve => setTimeout(() => resolve({ body: 'late', base64Encoded: false }), 50))
+        });
+        await recorder.close();
+
+        assert.strictEqual(readHar().entries[0].response.content.text, 'late');
+    });
+});
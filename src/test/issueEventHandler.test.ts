@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { LogEntry, LogWriter, TargetInfo } from '../logWriter';
+import { IssueEventHandler } from '../handlers/IssueEventHandler';
+
+const corsIssue = (isWarning: boolean) => ({
+    issue: {
+        code: 'CorsIssue',
+        details: { corsIssueDetails: { isWarning, corsErrorStatus: { corsError: 'MissingAllowOriginHeader' }, request: { url: 'http://api/data' } } }
+    }
+});
+
+const mainFrame = { frame: { id: 'main', url: 'http://localhost/' } };
+
+suite('IssueEventHandler', () => {
+    let entries: LogEntry[];
+    let handler: IssueEventHandler;
+
+    setup(() => {
+        entries = [];
+        handler = new IssueEventHandler({ write: (entry: LogEntry) => entries.push(entry) } as unknown as LogWriter);
+    });
+
+    test('blocking issues are errors, the rest warnings', () => {
+        handler.handleIssueAdded(corsIssue(false));
+        handler.handleIssueAdded({ issue: { code: 'DeprecationIssue', details: { deprecationIssueDetails: { type: 'DOMMutationEvents' } } } });
+        assert.deepStrictEqual(entries.map(entry => entry.level), ['error', 'warning']);
+    });
+
+    test('repeats are dropped until the same tab loads a page', () => {
+        const first: TargetInfo = { type: 'tab', id: '1' };
+        const second: TargetInfo = { type: 'tab', id: '2' };
+        handler.handleIssueAdded(corsIssue(true), first);
+        handler.handleIssueAdded(corsIssue(true), first);
+        handler.handleIssueAdded(corsIssue(true), second);
+        assert.strictEqual(entries.length, 2);
+
+        handler.handleFrameNavigated(mainFrame, second);
+        handler.handleIssueAdded(corsIssue(true), first);
+        assert.strictEqual(entries.length, 2);
+        handler.handleIssueAdded(corsIssue(true), second);
+        assert.strictEqual(entries.length, 3);
+    });
+});
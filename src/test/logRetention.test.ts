@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogRetention, sessionIdOf } from '../logRetention';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+suite('LogRetention', () => {
+    let dir: string;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devmirror-retention-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // A session written `ageDays` ago - older than the one-minute live window
+    const session = (id: string, ageDays: number, files: Record<string, string> = { '.log': 'x'.repeat(100) }) => {
+        const time = new Date(Date.now() - ageDays * DAY - 120000);
+        for (const [suffix, content] of Object.entries(files)) {
+            const file = path.join(dir, id + suffix);
+            fs.writeFileSync(file, content);
+            fs.utimesSync(file, time, time);
+        }
+    };
+    const files = () => fs.readdirSync(dir).sort();
+
+    test('sessionIdOf takes the timestamp prefix of any session file', () => {
+        assert.strictEqual(sessionIdOf('/logs/2025-09-24-143052-part2.log.gz'), '2025-09-24-143052');
+        assert.strictEqual(sessionIdOf('2025-09-24-143052-error-1.png'), '2025-09-24-143052');
+        assert.strictEqual(sessionIdOf('current.log'), null);
+    });
+
+    test('keeps the newest maxSessions sessions, counting the active one', async () => {
+        session('2025-01-01-000000', 3);
+        session('2025-01-02-000000', 2);
+        session('2025-01-03-000000', 1);
+        session('2025-01-04-000000', 0);
+
+        const result = await new LogRetention(dir, { maxSessions: 2, compress: false }).cleanup('2025-01-04-000000');
+        assert.strictEqual(result.removed, 2);
+        assert.deepStrictEqual(files(), ['2025-01-03-000000.log', '2025-01-04-000000.log']);
+    });
+
+    test('deletes sessions past maxAgeDays with all their files', async () => {
+        session('2025-01-01-000000', 10, { '.log': 'old', '.jsonl': '{}', '-error-1.png': 'png' });
+        session('2025-01-02-000000', 1);
+
+        const result = await new LogRetention(dir, { maxAgeDays: 7, compress: false }).cleanup();
+        assert.strictEqual(result.removed, 1);
+        assert.strictEqual(result.freedBytes, 8);
+        assert.deepStrictEqual(files(), ['2025-01-02-000000.log']);
+    });
+
+    test('never touches pinned sessions or sessions written in the last minute', async () => {
+        session('2025-01-01-000000', 30);
+        fs.writeFileSync(path.join(dir, '2025-01-02-000000.log'), 'live');
+        const retention = new LogRetention(dir, { maxSessions: 0 });
+        await retention.setPinned('2025-01-01-000000', true);
+
+        const result = await retention.cleanup();
+        assert.deepStrictEqual(result, { removed: 0, freedBytes: 0, compressed: 0 });
+        assert.deepStrictEqual(files(), ['2025-01-01-000000.log', '2025-01-01-000000.pinned', '2025-01-02-000000.log']);
+
+        await retention.setPinned('2025-01-01-000000', false);
+        assert.strictEqual(await retention.isPinned('2025-01-01-000000'), false);
+    });
+
+    test('compresses finished sessions unless compress is false', async () => {
+        session('2025-01-01-000000', 1, { '.log': 'text', '.har': '{}', '-error-1.png': 'png' });
+
+        assert.strictEqual((await new LogRetention(dir, { compress: false }).cleanup()).compressed, 0);
+        assert.deepStrictEqual(files(), ['2025-01-01-000000-error-1.png', '2025-01-01-000000.har', '2025-01-01-000000.log']);
+
+        assert.strictEqual((await new LogRetention(dir, {}).cleanup()).compressed, 2);
+        assert.deepStrictEqual(files(), ['2025-01-01-000000-error-1.png', '2025-01-01-000000.har.gz', '2025-01-01-000000.log.gz']);
+    });
+
+    test('repoints current.log at the compressed file', async () => {
+        session('2025-01-01-000000', 1, { '.log': 'old' });
+        session('2025-01-02-000000', 0, { '.log': 'new' });
+        fs.symlinkSync('2025-01-01-000000.log', path.join(dir, 'current.log'));
+
+        await new LogRetention(dir).compressSession('2025-01-01-000000');
+        assert.strictEqual(fs.readlinkSync(path.join(dir, 'current.log')), '2025-01-01-000000.log.gz');
+
+        fs.unlinkSync(path.join(dir, 'current.log'));
+        fs.symlinkSync('2025-01-02-000000.log', path.join(dir, 'current.log'));
+        await new LogRetention(dir).compressSession('2025-01-01-000000');
+        assert.strictEqual(fs.readlinkSync(path.join(dir, 'current.log')), '2025-01-02-000000.log');
+    });
+
+    test('removes the oldest sessions until the directory fits maxTotalBytes', async () => {
+        session('2025-01-01-000000', 3);
+        session('2025-01-02-000000', 2);
+        session('2025-01-03-000000', 1);
+
+        const result = await new LogRetention(dir, { maxTotalBytes: 250, compress: false }).cleanup();
+        assert.strictEqual(result.removed, 1);
+        assert.deepStrictEqual(files(), ['2025-01-02-000000.log', '2025-01-03-000000.log']);
+    });
+
+    test('compressSession skips pinned sessions and can be limited to some files', async () => {
+        session('2025-01-01-000000', 0, { '.log': 'a', '-part2.log': 'b' });
+        const retention = new LogRetention(dir);
+
+        assert.strictEqual(await retention.compressSession('2025-01-01-000000', ['2025-01-01-000000.log']), 1);
+        assert.deepStrictEqual(files(), ['2025-01-01-000000-part2.log', '2025-01-01-000000.log.gz']);
+
+        await retention.setPinned('2025-01-01-000000', true);
+        assert.strictEqual(await retention.compressSession('2025-01-01-000000'), 0);
+    });
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { LogWriter } from '../logWriter';
+import { LogRetention, sessionIdOf } from '../logRetention';
+
+suite('LogWriter rotation', () => {
+    let dir: string;
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devmirror-writer-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const read = (name: string) => {
+        const file = path.join(dir, name);
+        return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : zlib.gunzipSync(fs.readFileSync(file + '.gz')).toString('utf8');
+    };
+
+    // Writes enough entries for a second part and returns the session id
+    const capture = async (pinned: boolean): Promise<string> => {
+        const writer = new LogWriter(dir, { outputDir: dir, mode: 'cdp', rotation: { maxSize: 400 }, retention: { compress: true } });
+        await writer.initialize();
+        const sessionId = sessionIdOf(writer.getCurrentLogPath())!;
+        if (pinned) {
+            await new LogRetention(dir).setPinned(sessionId, true);
+        }
+        for (let i = 1; i <= 5; i++) {
+            writer.write({ type: 'console', method: 'log', message: `entry ${i} ${'x'.repeat(60)}`, timestamp: Date.now() });
+        }
+        await writer.close();
+        return sessionId;
+    };
+
+    test('continues the session in numbered parts linked by a trailer and a header', async () => {
+        const id = await capture(false);
+        const first = read(`${id}.log`);
+        const second = read(`${id}-part2.log`);
+
+        assert.match(first, /DevMirror Session Started/);
+        assert.match(first, new RegExp(`Continued in ${id}-part2\\.log \\(size limit 1 KB\\)`));
+        assert.match(second, /DevMirror Session Continued \(part 2\)/);
+        assert.match(second, new RegExp(`Previous part: ${id}\\.log\\.gz - rotated on size limit 1 KB`));
+
+        const entries = fs.readdirSync(dir).filter(name => name.endsWith('.gz')).sort()
+            .flatMap(name => read(name.replace(/\.gz$/, '')).match(/entry \d/g) || []);
+        assert.deepStrictEqual(entries.sort(), ['entry 1', 'entry 2', 'entry 3', 'entry 4', 'entry 5']);
+    });
+
+    test('names the uncompressed previous part of a pinned session', async () => {
+        const id = await capture(true);
+
+        assert.match(read(`${id}-part2.log`), new RegExp(`Previous part: ${id}\\.log - rotated`));
+        assert.ok(fs.existsSync(path.join(dir, `${id}.log`)));
+    });
+
+    test('an invalid match regex disables only its sink', async () => {
+        const writer = new LogWriter(dir, { outputDir: dir, mode: 'cdp', sinks: [{ type: 'jsonl', match: '/(/' }] });
+        await writer.initialize();
+        writer.write({ type: 'console', method: 'log', message: 'still captured', timestamp: Date.now() });
+        await writer.close();
+
+        const id = sessionIdOf(writer.getCurrentLogPath())!;
+        assert.match(read(`${id}.log`), /still captured/);
+        assert.ok(!fs.readdirSync(dir).some(name => name.includes('.jsonl')));
+    });
+});
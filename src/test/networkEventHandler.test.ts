@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { LogEntry, LogWriter, TargetInfo } from '../logWriter';
+import { NetworkEventHandler } from '../handlers/NetworkEventHandler';
+
+suite('NetworkEventHandler', () => {
+    test('WebSocket and EventSource entries name the target they came from', () => {
+        const entries: LogEntry[] = [];
+        const writer = { write: (entry: LogEntry) => entries.push(entry) } as unknown as LogWriter;
+        const handler = new NetworkEventHandler(writer, { outputDir: '.', mode: 'cdp', networkMessages: { enabled: true } });
+        const worker: TargetInfo = { type: 'worker', url: 'http://localhost/worker.js', targetId: 'W1' };
+
+        handler.handleWebSocketCreated({ requestId: '1', url: 'ws://localhost/live' }, worker);
+        handler.handleWebSocketFrameReceived({ requestId: '1', response: { opcode: 1, payloadData: 'hi' } }, worker);
+        handler.handleRequestWillBeSent({ requestId: '2', type: 'EventSource', request: { url: 'http://localhost/events' } });
+        handler.handleEventSourceMessageReceived({ requestId: '2', eventName: 'message', data: 'tick' });
+
+        assert.deepStrictEqual(entries.map(entry => entry.message), ['WebSocket opened', '▼ Received: hi', '▼ Event: tick']);
+        assert.deepStrictEqual(entries.map(entry => entry.target), [worker, worker, undefined]);
+    });
+});
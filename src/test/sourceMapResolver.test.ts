@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as os from 'os';
+import { AddressInfo } from 'net';
+import { SourceMapResolver } from '../sourceMapResolver';
+
+// Line 0: column 0 -> app.ts 1:0, column 4 -> app.ts 1:4 named "start"; line 1: column 0 -> app.ts 2:0
+const MAP = {
+    version: 3,
+    sources: ['src/app.ts'],
+    names: ['start'],
+    mappings: 'AAAA,IAAIA;AACA'
+};
+
+function inlineMapUrl(map: object): string {
+    return 'data:application/json;base64,' + Buffer.from(JSON.stringify(map)).toString('base64');
+}
+
+suite('SourceMapResolver', () => {
+    test('maps a generated position to the last segment at or before the column', async () => {
+        const resolver = new SourceMapResolver(os.tmpdir());
+        resolver.handleScriptParsed({ scriptId: '1', url: 'http://localhost/bundle.js', sourceMapURL: inlineMapUrl(MAP) });
+        await resolver.whenLoaded([{ scriptId: '1' }]);
+
+        assert.deepStrictEqual(resolver.resolveLocation(undefined, 0, 2, '1'), {
+            sourcePath: 'src/app.ts', lineNumber: 0, columnNumber: 0, name: undefined
+        });
+        assert.deepStrictEqual(resolver.resolveLocation('http://localhost/bundle.js', 0, 9), {
+            sourcePath: 'src/app.ts', lineNumber: 0, columnNumber: 4, name: 'start'
+        });
+        assert.strictEqual(resolver.resolveLocation(undefined, 1, 0, '1')?.lineNumber, 1);
+        assert.strictEqual(resolver.resolveLocation(undefined, 5, 0, '1'), null);
+    });
+
+    test('takes function names from the caller frame', async () => {
+        const resolver = new SourceMapResolver(os.tmpdir());
+        resolver.handleScriptParsed({ scriptId: '1', url: 'http://localhost/bundle.js', sourceMapURL: inlineMapUrl(MAP) });
+        await resolver.whenLoaded([{ scriptId: '1' }]);
+
+        const [inner, outer] = resolver.resolveStack([
+            { scriptId: '1', functionName: 'a', lineNumber: 1, columnNumber: 0 },
+            { scriptId: '1', functionName: 'b', lineNumber: 0, columnNumber: 4 }
+        ]);
+        assert.strictEqual(inner.functionName, 'start');
+        assert.strictEqual(inner.sourcePath, 'src/app.ts');
+        assert.strictEqual(outer.functionName, 'b');
+    });
+
+    test('leaves frames without a map unchanged', () => {
+        const resolver = new SourceMapResolver(os.tmpdir());
+        const frame = { url: 'http://localhost/other.js', functionName: 'x', lineNumber: 3, columnNumber: 1 };
+        assert.strictEqual(resolver.whenLoaded([frame]), null);
+        assert.deepStrictEqual(resolver.resolveStack([frame]), [frame]);
+    });
+
+    test('whenLoaded waits for a map that is still being fetched', async () => {
+        let release = () => {};
+        const server = http.createServer((_req, res) => {
+            release = () => res.end(JSON.stringify(MAP));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const port = (server.address() as AddressInfo).port;
+
+        try {
+            const resolver = new SourceMapResolver(os.tmpdir());
+            resolver.handleScriptParsed({
+                scriptId: '7',
+                url: `http://127.0.0.1:${port}/bundle.js`,
+                sourceMapURL: 'bundle.js.map'
+            });
+
+            const loaded = resolver.whenLoaded([{ scriptId: '7' }]);
+            assert.ok(loaded);
+            assert.strictEqual(resolver.resolveLocation(undefined, 0, 0, '7'), null);
+
+            await new Promise(resolve => setTimeout(resolve, 50));
+            release();
+            await loaded;
+            assert.strictEqual(resolver.resolveLocation(undefined, 0, 4, '7')?.name, 'start');
+            assert.strictEqual(resolver.whenLoaded([{ scriptId: '7' }]), null);
+        } finally {
+            server.close();
+        }
+    });
+
+    test('flattens index maps with section offsets', async () => {
+        const resolver = new SourceMapResolver(os.tmpdir());
+        const indexMap = { version: 3, sections: [{ offset: { line: 10, column: 0 }, map: MAP }] };
+        resolver.handleScriptParsed({ scriptId: '2', url: 'http://localhost/index.js', sourceMapURL: inlineMapUrl(indexMap) });
+        await resolver.whenLoaded([{ scriptId: '2' }]);
+
+        assert.strictEqual(resolver.resolveLocation(undefined, 0, 0, '2'), null);
+        assert.strictEqual(resolver.resolveLocation(undefined, 11, 0, '2')?.lineNumber, 1);
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * URL matching shared by every config option that takes URL rules.
+ * A pattern is either a regex literal ("/api\/v\d+/i") or a glob where
+ * `*` matches any run of characters and `?` matches one character.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+    const regexLiteral = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexLiteral) {
+        try {
+            return new RegExp(regexLiteral[1], regexLiteral[2]).test(url);
+        } catch {
+            return false;
+        }
+    }
+
+    const escaped = pattern
+        .split('')
+        .map(char => {
+            if (char === '*') {
+                return '.*';
+            }
+            if (char === '?') {
+                return '.';
+            }
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return new RegExp(`^${escaped}$`).test(url);
+}
+
+/**
+ * Apply include/exclude rules: no include list means everything is included,
+ * and exclude always wins.
+ */
+export function isUrlIncluded(url: string, include?: string[], exclude?: string[]): boolean {
+    if (include && include.length > 0 && !include.some(pattern => matchesUrlPattern(url, pattern))) {
+        return false;
+    }
+    return !(exclude && exclude.some(pattern => matchesUrlPattern(url, pattern)));
+}